@@ -1,7 +1,34 @@
 import { type ImmutableObject } from 'seamless-immutable'
 
+/** Rewrites saved service URLs starting with `from` to start with `to` instead. */
+export interface UrlRemapping {
+  from: string
+  to: string
+}
+
+/** Tags and item type of session items when the widget settings don't override them. */
+export const defaultPortalItemSettings = {
+  tags: 'ExB-session,workspace,map-config',
+  itemType: 'Application Configuration'
+}
+
 export interface Config {
-  layerUrls: string[]
+  /** Service URLs (or roots) that restored sessions may add layers from. Empty allows any layer. */
+  allowedLayerUrls?: string[]
+  /** Portal item IDs of sessions offered to every user as starting points. */
+  templateSessionIds?: string[]
+  /** Comma-separated tags that mark portal items as sessions of this app. */
+  portalTags?: string
+  /** Portal item type that sessions are saved as. */
+  portalItemType?: string
+  /** Where sessions are saved: portal items (default), or the browser's IndexedDB for anonymous or kiosk use. */
+  storage?: 'portal' | 'local'
+  /** Old and new service roots, applied to saved layer URLs when a session is restored (e.g. after a server move). */
+  urlRemappings?: UrlRemapping[]
+  /** Keep a rolling snapshot of the working map state in local storage for crash recovery. */
+  autosaveEnabled?: boolean
+  /** Seconds without map changes before the working state is autosaved. */
+  autosaveInterval?: number
 }
 
 export type IMConfig = ImmutableObject<Config>
@@ -0,0 +1,187 @@
+/** @jsx jsx */
+import { jsx } from 'jimu-core'
+import { Button, Modal, ModalHeader, ModalBody, ModalFooter } from 'jimu-ui'
+import { type SessionDiff, type LayerConfig, type LayerPropertyChange } from '../models'
+import { isEmptyDiff } from '../session-diff'
+import { getMapLabel } from '../session-maps'
+
+export interface WorkspaceDiffDialogProps {
+  title: string
+  /** Describes the original state, e.g. "Saved session". */
+  fromLabel: string
+  /** Describes the new state, e.g. "Current map". */
+  toLabel: string
+  diff: SessionDiff
+  /** When set, a confirm button is shown, e.g. to go ahead with an overwrite. */
+  confirmLabel?: string
+  onConfirm?: () => void
+  onClose: () => void
+}
+
+const propertyLabels: { [property: string]: string } = {
+  visible: 'Visibility',
+  opacity: 'Opacity',
+  definitionExpression: 'Filter',
+  renderer: 'Symbology',
+  labelingInfo: 'Labels',
+  popupEnabled: 'Pop-ups',
+  popupTemplate: 'Pop-up content',
+  outFields: 'Fields',
+  fieldAliases: 'Field aliases',
+  minScale: 'Minimum scale',
+  maxScale: 'Maximum scale',
+  graphics: 'Graphics',
+  order: 'Draw order'
+}
+
+/**
+ * Formats one side of a property change for display.
+ * Renderers, labels, pop-ups and aliases are too large to show, so only their presence is reported.
+ * @param change The property change.
+ * @param value The value to format.
+ * @returns A short display string.
+ */
+const formatValue = (change: LayerPropertyChange, value: any): string => {
+  switch (change.property) {
+    case 'visible':
+      return value ? 'visible' : 'hidden'
+    case 'opacity':
+      return `${Math.round((value ?? 1) * 100)}%`
+    case 'definitionExpression':
+      return value ? `"${value}"` : '(none)'
+    case 'popupEnabled':
+      return value ? 'enabled' : 'disabled'
+    case 'outFields':
+      return value ? value.join(', ') : '(default)'
+    case 'graphics':
+      return `${value?.length ?? 0} graphic(s)`
+    case 'minScale':
+    case 'maxScale':
+      return value ? `1:${Math.round(value).toLocaleString()}` : 'no limit'
+    case 'order':
+      return `position ${value + 1}`
+    default:
+      return value ? (value.type || 'custom') : '(default)'
+  }
+}
+
+const layerName = (cfg: { id: string; title?: string }) => cfg.title || cfg.id
+
+/**
+ * Summarises the differences of one of the other connected maps in a few short lines.
+ * @param diff The differences of the map.
+ * @returns One line per kind of change.
+ */
+const summarizeDiff = (diff: SessionDiff): string[] => {
+  const lines: string[] = []
+  if (diff.basemap) lines.push(`Basemap: ${diff.basemap.from} → ${diff.basemap.to}`)
+  if (diff.extent) lines.push(`Extent: ${diff.extent.description}`)
+  if (diff.camera) lines.push(`Camera: ${diff.camera.description}`)
+  if (diff.ground) lines.push(`Ground: ${diff.ground.description}`)
+  if (diff.layersAdded.length > 0) lines.push(`${diff.layersAdded.length} layer(s) added`)
+  if (diff.layersRemoved.length > 0) lines.push(`${diff.layersRemoved.length} layer(s) removed`)
+  if (diff.layersChanged.length > 0) lines.push(`${diff.layersChanged.length} layer(s) changed`)
+  return lines
+}
+
+/**
+ * Modal dialog showing the differences between two session states:
+ * basemap swap, extent move, 3D camera and ground changes, layers added or removed, per-layer
+ * property changes, and a summary for each of the other connected maps.
+ */
+export const WorkspaceDiffDialog = function (props: WorkspaceDiffDialogProps) {
+  const { diff } = props
+
+  return (
+    <Modal isOpen={true}>
+      <ModalHeader>{props.title}</ModalHeader>
+      <ModalBody>
+        <p className="text-muted">Changes from <b>{props.fromLabel}</b> to <b>{props.toLabel}</b></p>
+
+        {isEmptyDiff(diff) && <p className="info-text">No differences found.</p>}
+
+        {diff.basemap && (
+          <div className="mb-2"><b>Basemap:</b> {diff.basemap.from} → {diff.basemap.to}</div>
+        )}
+
+        {diff.extent && (
+          <div className="mb-2"><b>Extent:</b> {diff.extent.description}</div>
+        )}
+
+        {diff.camera && (
+          <div className="mb-2"><b>Camera:</b> {diff.camera.description}</div>
+        )}
+
+        {diff.ground && (
+          <div className="mb-2"><b>Ground:</b> {diff.ground.description}</div>
+        )}
+
+        {diff.layersAdded.length > 0 && (
+          <div className="mb-2">
+            <b>Layers added</b>
+            <ul className="mb-0">
+              {diff.layersAdded.map((cfg: LayerConfig) => <li key={cfg.id}>{layerName(cfg)}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {diff.layersRemoved.length > 0 && (
+          <div className="mb-2">
+            <b>Layers removed</b>
+            <ul className="mb-0">
+              {diff.layersRemoved.map((cfg: LayerConfig) => <li key={cfg.id}>{layerName(cfg)}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {diff.layersChanged.length > 0 && (
+          <div className="mb-2">
+            <b>Layers changed</b>
+            <ul className="mb-0">
+              {diff.layersChanged.map(layer => (
+                <li key={layer.id}>
+                  {layerName(layer)}
+                  <ul>
+                    {layer.changes.map(change => (
+                      <li key={change.property}>
+                        {propertyLabels[change.property]}: {formatValue(change, change.from)} → {formatValue(change, change.to)}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {diff.linkedMaps?.length > 0 && (
+          <div className="mb-2">
+            <b>Other maps</b>
+            <ul className="mb-0">
+              {diff.linkedMaps.map(map => (
+                <li key={map.id}>
+                  {getMapLabel(map.id)} – {map.change}
+                  {map.diff && (
+                    <ul>
+                      {summarizeDiff(map.diff).map(line => <li key={line}>{line}</li>)}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </ModalBody>
+      <ModalFooter>
+        <Button onClick={() => props.onClose()}>
+          {props.onConfirm ? 'Cancel' : 'Close'}
+        </Button>
+        {props.onConfirm && (
+          <Button type="primary" onClick={() => props.onConfirm()}>
+            {props.confirmLabel || 'Continue'}
+          </Button>
+        )}
+      </ModalFooter>
+    </Modal>
+  )
+}
\ No newline at end of file
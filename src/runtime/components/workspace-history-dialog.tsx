@@ -0,0 +1,63 @@
+/** @jsx jsx */
+import { jsx } from 'jimu-core'
+import { Button, Modal, ModalHeader, ModalBody, ModalFooter } from 'jimu-ui'
+import { type Workspace, type SessionVersion } from '../models'
+
+export interface WorkspaceHistoryDialogProps {
+  workspace: Workspace
+  /** Versions of the session, newest first. */
+  versions: SessionVersion[]
+  /** Number of versions kept by the "Prune" action. */
+  keepCount?: number
+  onPreview: (version: SessionVersion) => void
+  onCompare: (version: SessionVersion) => void
+  onRestore: (version: SessionVersion) => void
+  onDelete: (version: SessionVersion) => void
+  onPrune: (keep: number) => void
+  onClose: () => void
+}
+
+/**
+ * Modal dialog listing the version history of a session.
+ * - Preview shows what the version contains, without changing the map or the saved session.
+ * - Compare shows the differences between the version and the current saved session.
+ * - Restore makes the version the current state of the saved session and loads it;
+ *   the state it replaces is kept as a new version.
+ * - Delete removes a single version; Prune removes all but the newest versions.
+ */
+export const WorkspaceHistoryDialog = function (props: WorkspaceHistoryDialogProps) {
+  const keep = props.keepCount ?? 10
+
+  return (
+    <Modal isOpen={true}>
+      <ModalHeader>Version History – {props.workspace.label}</ModalHeader>
+      <ModalBody>
+        {props.versions.length === 0 && (
+          <p className="info-text">No versions saved yet. A version is recorded each time the session is overwritten or restored.</p>
+        )}
+        {props.versions.map(version => (
+          <div className="d-flex align-items-center border-bottom py-2" key={version.id}>
+            <div className="flex-grow-1">
+              <div><b>{new Date(version.created).toLocaleString('en-NZ', { hour12: false })}</b> – {version.author}</div>
+              {version.comment && <div>{version.comment}</div>}
+            </div>
+            <Button size="sm" type="tertiary" onClick={() => props.onPreview(version)}>Preview</Button>
+            <Button size="sm" type="tertiary" onClick={() => props.onCompare(version)}>Compare</Button>
+            <Button size="sm" type="tertiary" onClick={() => props.onRestore(version)}>Restore</Button>
+            <Button size="sm" type="tertiary" onClick={() => props.onDelete(version)}>Delete</Button>
+          </div>
+        ))}
+      </ModalBody>
+      <ModalFooter>
+        {props.versions.length > keep && (
+          <Button className="mr-auto" onClick={() => props.onPrune(keep)}>
+            Keep newest {keep}
+          </Button>
+        )}
+        <Button type="primary" onClick={() => props.onClose()}>
+          Close
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
\ No newline at end of file
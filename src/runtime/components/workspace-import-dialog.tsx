@@ -0,0 +1,64 @@
+/** @jsx jsx */
+import { jsx } from 'jimu-core'
+import { useState } from 'react'
+import { Button, Modal, ModalHeader, ModalBody, ModalFooter, TextInput } from 'jimu-ui'
+import { type WorkspacePayload } from '../models'
+
+export interface WorkspaceImportDialogProps {
+  /** The validated payload read from the imported file. */
+  payload: WorkspacePayload
+  fileName: string
+  onApply: (payload: WorkspacePayload) => void
+  onSaveAsNew: (payload: WorkspacePayload, label: string) => void
+  onClose: () => void
+}
+
+/**
+ * Modal dialog shown after a session file has been read and validated.
+ * The session can be applied straight to the map, or saved as a new portal item under a chosen name.
+ */
+export const WorkspaceImportDialog = function (props: WorkspaceImportDialogProps) {
+  const [label, setLabel] = useState<string>(props.payload.data?.label || '')
+  const { mapSession } = props.payload
+
+  return (
+    <Modal isOpen={true}>
+      <ModalHeader>Import Session</ModalHeader>
+      <ModalBody>
+        <p>
+          <b>{props.fileName}</b><br />
+          {mapSession.layers.length} layer(s)
+          {mapSession.basemapSnapshot?.title && <span>, basemap "{mapSession.basemapSnapshot.title}"</span>}
+          {props.payload.created && <span>, saved {new Date(props.payload.created).toLocaleString('en-NZ', { hour12: false })}</span>}
+        </p>
+        <label className="w-100">Name for the new session
+          <TextInput
+            className="w-100"
+            value={label}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLabel(e.target.value)}
+            type="text"
+            placeholder="Enter session name…"
+          />
+        </label>
+      </ModalBody>
+      <ModalFooter>
+        <Button onClick={() => props.onClose()}>
+          Cancel
+        </Button>
+        <Button
+          type="default"
+          onClick={() => props.onApply(props.payload)}
+        >
+          Apply to Map
+        </Button>
+        <Button
+          type="primary"
+          disabled={!label.trim()}
+          onClick={() => props.onSaveAsNew(props.payload, label.trim())}
+        >
+          Save as New Session
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
\ No newline at end of file
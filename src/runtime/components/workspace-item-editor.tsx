@@ -2,7 +2,7 @@
 /** @jsx jsx */
 import { jsx } from 'jimu-core'
 import { useState } from 'react'
-import { Button, Modal, ModalHeader, ModalBody, ModalFooter, TextInput } from 'jimu-ui'
+import { Button, Modal, ModalHeader, ModalBody, ModalFooter, TextArea, TextInput } from 'jimu-ui'
 import { type Workspace } from '../models'
 
 export type SaveMode = 'save' | 'save-version'
@@ -10,7 +10,12 @@ export type SaveMode = 'save' | 'save-version'
 export interface WorkspaceItemEditorProps {
   /** Pass an existing workspace to edit, or one with id='' for a new session. */
   data: Workspace
-  onSave: (workspace: Workspace, mode: SaveMode) => void
+  /** `comment` is only set when saving a version. */
+  onSave: (workspace: Workspace, mode: SaveMode, comment?: string) => void
+  /** Shows what would change compared with the saved session before overwriting it. */
+  onCompare?: (workspace: Workspace) => void
+  /** Opens the version history of an existing session. "Save as Version" is only offered when set. */
+  onShowHistory?: (workspace: Workspace) => void
   onClose: () => void
 }
 
@@ -18,10 +23,15 @@ export interface WorkspaceItemEditorProps {
  * Modal dialog used for both creating a new session and editing an existing one.
  *
  * New session:  shows a single "Save" button.
- * Edit session: shows "Save" (overwrite) and "Save a Version" (new copy with timestamp).
+ * Edit session: shows "Overwrite" and "Save as Version" (overwrite, with an optional comment on the
+ *               version recorded of the replaced state), plus a link to the history.
+ * Both modes let the user set a short description and their own comma separated tags.
  */
 export const WorkspaceItemEditor = function (props: WorkspaceItemEditorProps) {
   const [label, setLabel] = useState<string>(props.data.label)
+  const [snippet, setSnippet] = useState<string>(props.data.snippet || '')
+  const [tags, setTags] = useState<string>((props.data.tags || []).join(', '))
+  const [comment, setComment] = useState<string>('')
 
   const isNew = !props.data.id
 
@@ -35,13 +45,16 @@ export const WorkspaceItemEditor = function (props: WorkspaceItemEditorProps) {
     }
   }
 
+  const buildWorkspace = (): Workspace => ({
+    ...props.data,
+    label: label.trim(),
+    snippet: snippet.trim(),
+    tags: tags.split(',').map(t => t.trim()).filter(Boolean)
+  })
+
   const handleSave = (mode: SaveMode) => {
     if (!label.trim()) return
-    const ws: Workspace = {
-      ...props.data,
-      label: label.trim()
-    }
-    props.onSave(ws, mode)
+    props.onSave(buildWorkspace(), mode, mode === 'save-version' ? comment.trim() : undefined)
   }
 
   return (
@@ -62,24 +75,70 @@ export const WorkspaceItemEditor = function (props: WorkspaceItemEditorProps) {
               />
             </label>
           ) : (
-            <p>
-              <b>Overwrite</b> button to overwrite the existing session <br />
-              <b>Save a Copy</b> to create a versioned copy of the session
-            </p>
+            <div>
+              <p>
+                <b>Overwrite</b> to replace the saved session with the current map <br />
+                <b>Save as Version</b> to also describe the replaced state in the session's version history
+              </p>
+              <label className="w-100">Version comment (optional)
+                <TextInput
+                  className="w-100"
+                  value={comment}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setComment(e.target.value)}
+                  type="text"
+                  placeholder="What changed?"
+                />
+              </label>
+            </div>
           )
           }
+          <label className="w-100 mt-2">Description
+            <TextArea
+              className="w-100"
+              value={snippet}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setSnippet(e.target.value)}
+              placeholder="What is this session for?"
+              maxLength={250}
+            />
+          </label>
+          <label className="w-100 mt-2">Tags
+            <TextInput
+              className="w-100"
+              value={tags}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTags(e.target.value)}
+              type="text"
+              placeholder="e.g. flooding, north shore"
+            />
+          </label>
         </div>
       </ModalBody>
       <ModalFooter>
+        {!isNew && props.onShowHistory && (
+          <Button
+            type="tertiary"
+            className="mr-auto"
+            onClick={() => props.onShowHistory(props.data)}
+          >
+            Version History
+          </Button>
+        )}
+        {!isNew && props.onCompare && (
+          <Button
+            type="tertiary"
+            onClick={() => props.onCompare(buildWorkspace())}
+          >
+            Compare with Saved
+          </Button>
+        )}
         <Button onClick={() => props.onClose()}>
           Cancel
         </Button>
-        {!isNew && (
+        {!isNew && props.onShowHistory && (
           <Button
             type="default"
             onClick={() => handleSave('save-version')}
           >
-            Save a Copy
+            Save as Version
           </Button>
         )}
         <Button
@@ -0,0 +1,67 @@
+/** @jsx jsx */
+import { jsx } from 'jimu-core'
+import { useState } from 'react'
+import { Option, Select, TextInput } from 'jimu-ui'
+import { type SessionSortField } from '../models'
+
+export interface WorkspaceListFilterProps {
+  query: string
+  sortField: SessionSortField
+  disabled?: boolean
+  onQueryChange: (query: string) => void
+  onSortChange: (sortField: SessionSortField) => void
+}
+
+const sortOptions: Array<{ value: SessionSortField; label: string }> = [
+  { value: 'modified', label: 'Last modified' },
+  { value: 'created', label: 'Date created' },
+  { value: 'title', label: 'Name' }
+]
+
+/**
+ * Search box and sort selector shown above the session list.
+ * The search text is only applied when the user presses Enter or leaves the box,
+ * so the portal isn't queried on every keystroke.
+ */
+export const WorkspaceListFilter = function (props: WorkspaceListFilterProps) {
+  const [text, setText] = useState<string>(props.query)
+
+  const applyQuery = () => {
+    if (text.trim() !== props.query) {
+      props.onQueryChange(text.trim())
+    }
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      applyQuery()
+    }
+  }
+
+  return (
+    <div className="workspace-list-filter">
+      <TextInput
+        className="workspace-list-filter-search"
+        type="search"
+        size="sm"
+        value={text}
+        placeholder="Search sessions…"
+        disabled={props.disabled}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setText(e.target.value)}
+        onKeyDown={onKeyDown}
+        onBlur={applyQuery}
+      />
+      <Select
+        className="workspace-list-filter-sort"
+        size="sm"
+        value={props.sortField}
+        disabled={props.disabled}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => props.onSortChange(e.target.value as SessionSortField)}
+      >
+        {sortOptions.map(option => (
+          <Option key={option.value} value={option.value}>{option.label}</Option>
+        ))}
+      </Select>
+    </div>
+  )
+}
\ No newline at end of file
@@ -5,19 +5,69 @@ import { Icon } from 'jimu-ui'
 import { type Workspace } from '../models'
 import DeleteIcon from '../assets/icons/delete.svg'
 import EditIcon from '../assets/icons/edit.svg'
+import ShareIcon from '../assets/icons/share.svg'
+import StarIcon from '../assets/icons/star.svg'
+import HomeIcon from '../assets/icons/home.svg'
+import DownloadIcon from '../assets/icons/download.svg'
+import LinkIcon from '../assets/icons/link.svg'
 
 export interface WorkspaceListProps {
   data: Workspace[]
+  /** Username of the signed-in user; actions that modify a session are only shown for sessions they own. */
+  username?: string
+  /** Message shown when the list is empty. */
+  emptyText?: string
+  /** IDs of the sessions the user has starred. */
+  favorites?: string[]
+  /** ID of the session loaded automatically when the app starts. */
+  homeId?: string
+  /** Whether the portal has more results after the ones in `data`. */
+  hasMore?: boolean
+  onLoadMore?: () => void
   onWorkspaceOpen: (workspace: Workspace) => void
   onWorkspaceEdit: (workspace: Workspace) => void
   onWorkspaceDelete: (workspace: Workspace) => void
+  /** Omit when sessions can't be shared (e.g. sessions saved in the browser) to hide the action. */
+  onWorkspaceShare?: (workspace: Workspace) => void
+  onWorkspaceFavorite: (workspace: Workspace) => void
+  onWorkspaceHome: (workspace: Workspace) => void
+  onWorkspaceExport: (workspace: Workspace) => void
+  /** Omit when sessions can't be opened from a link to hide the action. */
+  onWorkspaceCopyLink?: (workspace: Workspace) => void
+}
+
+/**
+ * Formats a portal timestamp (milliseconds since epoch) for display in a row.
+ * @param time Timestamp to format
+ * @returns Formatted date string, e.g. "05-03-2024 14:30"
+ */
+const formatDate = (time: number) => new Date(time).toLocaleString('en-NZ', {
+  year: 'numeric', month: '2-digit', day: '2-digit',
+  hour: '2-digit', minute: '2-digit',
+  hour12: false
+}).replace(/[/]/g, '-')
+
+const activeIconColor = '#f5a623'
+const inactiveIconColor = 'rgb(180, 180, 180)'
+
+const accessLabels: { [access: string]: string } = {
+  private: 'Private',
+  shared: 'Groups',
+  org: 'Organization',
+  public: 'Public'
 }
 
 /**
  * Renders the scrollable list of saved workspace sessions.
- * - Clicking the row label loads (opens) the session.
+ * - Clicking the row opens a preview of the session, from which it can be applied.
+ * - The star icon toggles the session as a favourite; the home icon makes it the start-up session.
+ * - The download icon exports the session as a JSON file.
+ * - The link icon copies a link to the app that opens the session.
+ * - The share icon opens the sharing dialog; the current sharing level is shown next to the label.
  * - The edit icon opens the editor modal for renaming.
  * - The delete icon triggers deletion (with confirmation handled by the parent).
+ * - The "Load more" button at the bottom fetches the next page of results.
+ * Sessions owned by someone else are read-only: they show their owner and can only be opened.
  */
 export const WorkspaceList = function (props: WorkspaceListProps) {
   const onOpenClick = (ev: React.MouseEvent, ws: Workspace) => {
@@ -30,15 +80,44 @@ export const WorkspaceList = function (props: WorkspaceListProps) {
     props.onWorkspaceEdit(ws)
   }
 
+  const onShareClick = (ev: React.MouseEvent, ws: Workspace) => {
+    ev.stopPropagation()
+    props.onWorkspaceShare?.(ws)
+  }
+
+  const onFavoriteClick = (ev: React.MouseEvent, ws: Workspace) => {
+    ev.stopPropagation()
+    props.onWorkspaceFavorite(ws)
+  }
+
+  const onHomeClick = (ev: React.MouseEvent, ws: Workspace) => {
+    ev.stopPropagation()
+    props.onWorkspaceHome(ws)
+  }
+
+  const onExportClick = (ev: React.MouseEvent, ws: Workspace) => {
+    ev.stopPropagation()
+    props.onWorkspaceExport(ws)
+  }
+
+  const onCopyLinkClick = (ev: React.MouseEvent, ws: Workspace) => {
+    ev.stopPropagation()
+    props.onWorkspaceCopyLink?.(ws)
+  }
+
   const onDeleteClick = (ev: React.MouseEvent, ws: Workspace) => {
     ev.stopPropagation()
     props.onWorkspaceDelete(ws)
   }
 
+  const isOwned = (ws: Workspace) => !ws.owner || !props.username || ws.owner === props.username
+  const isFavorite = (ws: Workspace) => !!props.favorites?.includes(ws.id)
+  const isHome = (ws: Workspace) => props.homeId === ws.id
+
   return (
     <div className="save-sessions-list">
       {props.data.length === 0 && (
-        <p className="info-text workspaces-content-center">No sessions saved yet</p>
+        <p className="info-text workspaces-content-center">{props.emptyText || 'No sessions saved yet'}</p>
       )}
 
       {props.data.map((workspace: Workspace) => (
@@ -47,25 +126,94 @@ export const WorkspaceList = function (props: WorkspaceListProps) {
           key={workspace.id}
           onClick={(ev) => { onOpenClick(ev, workspace) }}
         >
+          {workspace.thumbnailUrl && (
+            <img className="workspace-list-thumbnail" src={workspace.thumbnailUrl} alt="" />
+          )}
           <div className="workspace-list-label p-2">
             {workspace.label}
+            {workspace.access && (
+              <span className={`workspace-list-access workspace-list-access-${workspace.access}`}>
+                {accessLabels[workspace.access] || workspace.access}
+              </span>
+            )}
+            {workspace.snippet && <div className="workspace-list-snippet">{workspace.snippet}</div>}
+            <div className="workspace-list-details">
+              {!isOwned(workspace) && <span className="workspace-list-owner">{workspace.owner}</span>}
+              {workspace.modified && <span className="workspace-list-modified">{formatDate(workspace.modified)}</span>}
+            </div>
           </div>
           <div className="workspace-list-icon-wrappers">
             <div
               className="workspace-list-icon-wrapper workspace-list-icon-wrapper-clickable"
-              onClick={(ev) => { onEditClick(ev, workspace) }}
+              onClick={(ev) => { onFavoriteClick(ev, workspace) }}
             >
-              <Icon className="workspace-list-icon" title="Edit Session" icon={EditIcon} />
+              <Icon
+                className="workspace-list-icon"
+                title={isFavorite(workspace) ? 'Remove from Favourites' : 'Add to Favourites'}
+                icon={StarIcon}
+                color={isFavorite(workspace) ? activeIconColor : inactiveIconColor}
+              />
             </div>
             <div
               className="workspace-list-icon-wrapper workspace-list-icon-wrapper-clickable"
-              onClick={(ev) => { onDeleteClick(ev, workspace) }}
+              onClick={(ev) => { onHomeClick(ev, workspace) }}
             >
-              <Icon className="workspace-list-icon" title="Delete Session" icon={DeleteIcon} />
+              <Icon
+                className="workspace-list-icon"
+                title={isHome(workspace) ? 'Clear Home Session' : 'Set as Home Session'}
+                icon={HomeIcon}
+                color={isHome(workspace) ? activeIconColor : inactiveIconColor}
+              />
             </div>
+            <div
+              className="workspace-list-icon-wrapper workspace-list-icon-wrapper-clickable"
+              onClick={(ev) => { onExportClick(ev, workspace) }}
+            >
+              <Icon className="workspace-list-icon" title="Export Session" icon={DownloadIcon} />
+            </div>
+            {props.onWorkspaceCopyLink && (
+              <div
+                className="workspace-list-icon-wrapper workspace-list-icon-wrapper-clickable"
+                onClick={(ev) => { onCopyLinkClick(ev, workspace) }}
+              >
+                <Icon className="workspace-list-icon" title="Copy Link" icon={LinkIcon} />
+              </div>
+            )}
+            {isOwned(workspace) && props.onWorkspaceShare && (
+              <div
+                className="workspace-list-icon-wrapper workspace-list-icon-wrapper-clickable"
+                onClick={(ev) => { onShareClick(ev, workspace) }}
+              >
+                <Icon className="workspace-list-icon" title="Share Session" icon={ShareIcon} />
+              </div>
+            )}
+            {isOwned(workspace) && (
+              <div
+                className="workspace-list-icon-wrapper workspace-list-icon-wrapper-clickable"
+                onClick={(ev) => { onEditClick(ev, workspace) }}
+              >
+                <Icon className="workspace-list-icon" title="Edit Session" icon={EditIcon} />
+              </div>
+            )}
+            {isOwned(workspace) && (
+              <div
+                className="workspace-list-icon-wrapper workspace-list-icon-wrapper-clickable"
+                onClick={(ev) => { onDeleteClick(ev, workspace) }}
+              >
+                <Icon className="workspace-list-icon" title="Delete Session" icon={DeleteIcon} />
+              </div>
+            )}
           </div>
         </div>
       ))}
+
+      {props.hasMore && (
+        <div className="workspaces-content-center p-2">
+          <button className="jimu-btn" onClick={() => props.onLoadMore?.()}>
+            Load more
+          </button>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
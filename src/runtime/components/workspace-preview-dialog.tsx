@@ -0,0 +1,144 @@
+/** @jsx jsx */
+import { jsx } from 'jimu-core'
+import { useEffect, useRef } from 'react'
+import { Button, Modal, ModalHeader, ModalBody, ModalFooter } from 'jimu-ui'
+import MapView from 'esri/views/MapView'
+import Map from 'esri/Map'
+import Basemap from 'esri/Basemap'
+import Graphic from 'esri/Graphic'
+import Extent from 'esri/geometry/Extent'
+import { type Workspace, type WorkspacePayload, type LayerConfig } from '../models'
+
+export interface WorkspacePreviewDialogProps {
+  workspace: Workspace
+  payload: WorkspacePayload
+  /** Basemap used for the inset map; usually a clone of the live map's basemap. */
+  insetBasemap?: Basemap
+  /** Omit both apply callbacks to show the session read-only, e.g. to preview a saved version. */
+  onApply?: (workspace: Workspace, payload: WorkspacePayload) => void
+  onApplyPartially?: (workspace: Workspace) => void
+  onClose: () => void
+}
+
+interface InsetMapProps {
+  extent: any
+  basemap?: Basemap
+}
+
+/**
+ * Small non-interactive map outlining the saved extent of a session.
+ */
+const InsetMap = function (props: InsetMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!containerRef.current || !props.extent) return
+
+    let extent: Extent
+    try {
+      extent = Extent.fromJSON(props.extent)
+    } catch {
+      return
+    }
+
+    const view = new MapView({
+      container: containerRef.current,
+      map: new Map({ basemap: props.basemap || 'gray-vector' }),
+      extent: extent.clone().expand(1.5),
+      ui: { components: [] }
+    })
+    view.graphics.add(new Graphic({
+      geometry: extent,
+      symbol: {
+        type: 'simple-fill',
+        color: [0, 0, 255, 0.1],
+        outline: { color: [0, 0, 255, 1], width: 2 }
+      } as any
+    }))
+
+    return () => { view.destroy() }
+  }, [props.extent, props.basemap])
+
+  if (!props.extent) {
+    return <p className="info-text">This session has no saved extent</p>
+  }
+  return <div ref={containerRef} style={{ width: '100%', height: 200 }} />
+}
+
+/**
+ * Describes the saved state of a layer: visibility, opacity, filter and number of sublayers or graphics.
+ * @param cfg The saved layer config.
+ * @returns A short description.
+ */
+const describeLayer = (cfg: LayerConfig): string => {
+  const parts = [cfg.visible ? 'visible' : 'hidden']
+  if ((cfg.opacity ?? 1) < 1) parts.push(`${Math.round(cfg.opacity * 100)}% opacity`)
+  if (cfg.definitionExpression) parts.push(`filter: ${cfg.definitionExpression}`)
+  if (cfg.sublayers?.length) parts.push(`${cfg.sublayers.length} sublayer(s)`)
+  if (cfg.graphics) parts.push(`${cfg.graphics.length} graphic(s)`)
+  return parts.join(', ')
+}
+
+/**
+ * Modal dialog showing what a session contains before it is applied to the map:
+ * its saved extent on an inset map, its basemap and its layers (top layer first), and how many
+ * other maps it restores along with the main map.
+ */
+export const WorkspacePreviewDialog = function (props: WorkspacePreviewDialogProps) {
+  const { mapSession } = props.payload
+  const layers = [...(mapSession.layers || [])].sort((a, b) => b.order - a.order)
+  const basemapTitle = mapSession.basemapSnapshot?.title || mapSession.basemapId || 'Unknown'
+  const linkedMapCount = Object.keys(props.payload.linkedMaps || {}).length
+
+  return (
+    <Modal isOpen={true}>
+      <ModalHeader>{props.workspace.label}</ModalHeader>
+      <ModalBody>
+        {props.workspace.snippet && <p>{props.workspace.snippet}</p>}
+        <InsetMap extent={mapSession.extent} basemap={props.insetBasemap} />
+        <div className="mt-2"><b>Basemap:</b> {basemapTitle}</div>
+        {mapSession.viewType === '3d' && (
+          <div className="mt-2">
+            <b>View:</b> 3D{mapSession.ground?.layers.length > 0 ? `, ${mapSession.ground.layers.length} elevation layer(s)` : ''}
+          </div>
+        )}
+        <div className="mt-2">
+          <b>Layers ({layers.length})</b>
+          <ul className="mb-0">
+            {layers.map(cfg => (
+              <li key={cfg.id}>
+                {cfg.title || cfg.id} <span className="text-muted">– {describeLayer(cfg)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        {linkedMapCount > 0 && (
+          <div className="mt-2">
+            <b>Other maps:</b> {linkedMapCount} (restored onto the other connected maps)
+          </div>
+        )}
+      </ModalBody>
+      <ModalFooter>
+        <Button onClick={() => props.onClose()}>
+          {props.onApply || props.onApplyPartially ? 'Cancel' : 'Close'}
+        </Button>
+        {props.onApplyPartially && (
+          <Button
+            type="default"
+            onClick={() => props.onApplyPartially(props.workspace)}
+          >
+            Apply Partially
+          </Button>
+        )}
+        {props.onApply && (
+          <Button
+            type="primary"
+            onClick={() => props.onApply(props.workspace, props.payload)}
+          >
+            Apply
+          </Button>
+        )}
+      </ModalFooter>
+    </Modal>
+  )
+}
\ No newline at end of file
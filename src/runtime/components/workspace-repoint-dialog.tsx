@@ -0,0 +1,69 @@
+/** @jsx jsx */
+import { jsx } from 'jimu-core'
+import { useState } from 'react'
+import { Button, Checkbox, Label, Modal, ModalHeader, ModalBody, ModalFooter, TextInput } from 'jimu-ui'
+import { type RestoreItemResult } from '../models'
+
+export interface WorkspaceRepointDialogProps {
+  /** The layer that could not be restored. */
+  item: RestoreItemResult
+  /** Whether the session can be re-saved with the new URL (it is saved and owned by the user). */
+  canSave: boolean
+  onApply: (item: RestoreItemResult, url: string, save: boolean) => void
+  onClose: () => void
+}
+
+/**
+ * Modal dialog used to point a layer that could not be restored at a different URL,
+ * e.g. after its service was moved. The layer is then restored from the new URL and,
+ * if chosen, the session is saved again so it opens correctly next time.
+ */
+export const WorkspaceRepointDialog = function (props: WorkspaceRepointDialogProps) {
+  const [url, setUrl] = useState<string>(props.item.url || '')
+  const [save, setSave] = useState(props.canSave)
+
+  const trimmed = url.trim()
+  const isValid = /^https?:\/\/\S+$/i.test(trimmed) && trimmed !== props.item.url
+
+  return (
+    <Modal isOpen={true}>
+      <ModalHeader>Repoint "{props.item.label}"</ModalHeader>
+      <ModalBody>
+        {props.item.reason && <p className="text-muted">{props.item.reason}</p>}
+        {props.item.url && (
+          <p>
+            <b>Saved URL</b><br />
+            <span className="text-break">{props.item.url}</span>
+          </p>
+        )}
+        <label className="w-100">New URL
+          <TextInput
+            className="w-100"
+            value={url}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUrl(e.target.value)}
+            type="text"
+            placeholder="https://…/rest/services/…"
+          />
+        </label>
+        {props.canSave && (
+          <Label className="d-flex align-items-center mt-2" check>
+            <Checkbox className="mr-2" checked={save} onChange={() => setSave(!save)} />
+            Save the session with the new URL
+          </Label>
+        )}
+      </ModalBody>
+      <ModalFooter>
+        <Button onClick={() => props.onClose()}>
+          Cancel
+        </Button>
+        <Button
+          type="primary"
+          disabled={!isValid}
+          onClick={() => props.onApply(props.item, trimmed, props.canSave && save)}
+        >
+          Repoint
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
\ No newline at end of file
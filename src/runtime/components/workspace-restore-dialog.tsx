@@ -0,0 +1,106 @@
+/** @jsx jsx */
+import { jsx } from 'jimu-core'
+import { useState } from 'react'
+import { Button, Checkbox, Label, Modal, ModalHeader, ModalBody, ModalFooter, Radio } from 'jimu-ui'
+import { type Workspace, type RestoreOptions } from '../models'
+
+export interface WorkspaceRestoreDialogProps {
+  workspace: Workspace
+  /** Options the dialog starts with, usually everything selected. */
+  initialOptions: RestoreOptions
+  onApply: (workspace: Workspace, options: RestoreOptions) => void
+  onClose: () => void
+}
+
+type OptionKey = Exclude<keyof RestoreOptions, 'removeLayers' | 'allowedLayerUrls'>
+
+const optionLabels: Array<{ key: OptionKey; label: string }> = [
+  { key: 'basemap', label: 'Basemap' },
+  { key: 'ground', label: 'Ground and elevation (3D maps)' },
+  { key: 'extent', label: 'Extent or camera' },
+  { key: 'visibility', label: 'Layer visibility, opacity and scale range' },
+  { key: 'renderers', label: 'Symbology (renderers)' },
+  { key: 'filters', label: 'Filters (definition expressions)' },
+  { key: 'labels', label: 'Labels' },
+  { key: 'popups', label: 'Pop-ups, fields and field aliases' },
+  { key: 'graphics', label: 'Graphics, sketches and markups' },
+  { key: 'addLayers', label: 'Add session layers missing from the map' }
+]
+
+/**
+ * Modal dialog used to apply only some parts of a session to the map.
+ *
+ * Replace mode removes map layers that aren't in the session and reorders layers to match it.
+ * Merge mode keeps the layers currently on the map, in their current order.
+ * Layers are only ever removed when adding session layers is selected too, so applying just
+ * the extent or the filters never changes which layers are on the map.
+ */
+export const WorkspaceRestoreDialog = function (props: WorkspaceRestoreDialogProps) {
+  const [options, setOptions] = useState<RestoreOptions>(props.initialOptions)
+
+  const onToggle = (key: OptionKey) => {
+    setOptions(prev => ({ ...prev, [key]: !prev[key] }))
+  }
+
+  const replaceLayers = options.addLayers && options.removeLayers
+  const nothingSelected = optionLabels.every(o => !options[o.key])
+
+  return (
+    <Modal isOpen={true}>
+      <ModalHeader>Open "{props.workspace.label}"</ModalHeader>
+      <ModalBody>
+        <div className="mb-3">
+          <b>Apply</b>
+          {optionLabels.map(option => (
+            <Label className="d-flex align-items-center" key={option.key} check>
+              <Checkbox
+                className="mr-2"
+                checked={options[option.key]}
+                onChange={() => onToggle(option.key)}
+              />
+              {option.label}
+            </Label>
+          ))}
+        </div>
+        <div className="mb-3">
+          <b>Layers already on the map</b>
+          <Label className="d-flex align-items-center" check>
+            <Radio
+              className="mr-2"
+              name="restore-mode"
+              checked={replaceLayers}
+              disabled={!options.addLayers}
+              onChange={() => setOptions(prev => ({ ...prev, removeLayers: true }))}
+            />
+            Replace – remove layers that aren't in the session
+          </Label>
+          <Label className="d-flex align-items-center" check>
+            <Radio
+              className="mr-2"
+              name="restore-mode"
+              checked={!replaceLayers}
+              disabled={!options.addLayers}
+              onChange={() => setOptions(prev => ({ ...prev, removeLayers: false }))}
+            />
+            Merge – keep my current layers
+          </Label>
+          {!options.addLayers && (
+            <p className="info-text mb-0">Select adding session layers to replace the layers on the map</p>
+          )}
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button onClick={() => props.onClose()}>
+          Cancel
+        </Button>
+        <Button
+          type="primary"
+          disabled={nothingSelected}
+          onClick={() => props.onApply(props.workspace, { ...options, removeLayers: replaceLayers })}
+        >
+          Apply
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+/** @jsx jsx */
+import { jsx } from 'jimu-core'
+import { Button } from 'jimu-ui'
+import { type RestoreResult, type RestoreItemResult, type RestoreStatus } from '../models'
+
+export interface WorkspaceRestoreSummaryProps {
+  /** Name of the session that was restored. */
+  label: string
+  result: RestoreResult
+  /** Disables the retry action while the map is busy. */
+  disabled?: boolean
+  onRetryFailed: () => void
+  /** Lets the user point a failed layer at a different URL. */
+  onRepoint?: (item: RestoreItemResult) => void
+  onClose: () => void
+}
+
+const statusLabels: { [status in RestoreStatus]: string } = {
+  restored: 'restored',
+  recreated: 'recreated',
+  skipped: 'skipped',
+  failed: 'failed'
+}
+
+/**
+ * Describes why an item needs the user's attention: its reason and any settings that couldn't be applied.
+ * @param item The item result.
+ * @returns A short description.
+ */
+const describeItem = (item: RestoreItemResult): string =>
+  [item.reason, ...(item.warnings || [])].filter(Boolean).join('; ')
+
+/**
+ * Dismissable panel summarising a session restore: how many items were restored, recreated,
+ * skipped or failed, with the reason for every item that wasn't restored cleanly.
+ * Failed items can be retried, e.g. after a service outage, and failed layers can be repointed
+ * at a different URL when their service has moved.
+ */
+export const WorkspaceRestoreSummary = function (props: WorkspaceRestoreSummaryProps) {
+  const { items } = props.result
+  const counts = (Object.keys(statusLabels) as RestoreStatus[])
+    .map(status => ({ status, count: items.filter(item => item.status === status).length }))
+    .filter(c => c.count > 0)
+  const attention = items.filter(item => item.status === 'failed' || item.status === 'skipped' || item.warnings?.length)
+  const hasFailures = items.some(item => item.status === 'failed')
+
+  return (
+    <div className={`restore-summary ${hasFailures ? 'restore-summary-failed' : ''}`}>
+      <div className="d-flex align-items-center">
+        <span className="flex-grow-1">
+          <b>{props.label}</b>: {counts.map(c => `${c.count} ${statusLabels[c.status]}`).join(', ')}
+        </span>
+        {hasFailures && (
+          <Button size="sm" type="tertiary" disabled={props.disabled} onClick={() => props.onRetryFailed()}>
+            Retry Failed
+          </Button>
+        )}
+        <button className="dismiss-btn" onClick={() => props.onClose()}>✕</button>
+      </div>
+      {attention.length > 0 && (
+        <ul className="mb-0">
+          {attention.map(item => (
+            <li key={`${item.mapWidgetId || ''}:${item.kind}:${item.id}`}>
+              <span className={`restore-status restore-status-${item.status}`}>{statusLabels[item.status]}</span>
+              {' '}{item.label}
+              {describeItem(item) && <span className="text-muted"> – {describeItem(item)}</span>}
+              {props.onRepoint && item.kind === 'layer' && item.status === 'failed' && item.url && (
+                <Button size="sm" type="tertiary" disabled={props.disabled} onClick={() => props.onRepoint(item)}>
+                  Repoint
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+/** @jsx jsx */
+import { jsx } from 'jimu-core'
+import { useState } from 'react'
+import { Button, Checkbox, Label, Modal, ModalHeader, ModalBody, ModalFooter, Radio } from 'jimu-ui'
+import { type Workspace, type SessionSharing, type PortalGroupInfo } from '../models'
+
+type ShareLevel = 'private' | 'org' | 'public'
+
+export interface WorkspaceShareDialogProps {
+  workspace: Workspace
+  /** Groups the current user belongs to and can share with. */
+  groups: PortalGroupInfo[]
+  /** Current sharing of the session, as returned by the portal. */
+  sharing: SessionSharing
+  onSave: (workspace: Workspace, sharing: SessionSharing) => void
+  onClose: () => void
+}
+
+/**
+ * Modal dialog used to change who a session is shared with.
+ *
+ * The level (owner only, organization, everyone) and group membership are independent:
+ * a session can be private to the organization but still shared with selected groups.
+ */
+export const WorkspaceShareDialog = function (props: WorkspaceShareDialogProps) {
+  const initialLevel: ShareLevel = props.sharing.access === 'public' || props.sharing.access === 'org'
+    ? props.sharing.access
+    : 'private'
+
+  const [level, setLevel] = useState<ShareLevel>(initialLevel)
+  const [selectedGroups, setSelectedGroups] = useState<string[]>(props.sharing.groups)
+
+  const onGroupToggle = (groupId: string) => {
+    setSelectedGroups(prev => prev.includes(groupId)
+      ? prev.filter(id => id !== groupId)
+      : [...prev, groupId]
+    )
+  }
+
+  const handleSave = () => {
+    const access = level === 'private' && selectedGroups.length > 0 ? 'shared' : level
+    props.onSave(props.workspace, { access, groups: selectedGroups })
+  }
+
+  const levels: Array<{ value: ShareLevel; label: string }> = [
+    { value: 'private', label: 'Owner only' },
+    { value: 'org', label: 'Organization' },
+    { value: 'public', label: 'Everyone (public)' }
+  ]
+
+  return (
+    <Modal isOpen={true}>
+      <ModalHeader>Share "{props.workspace.label}"</ModalHeader>
+      <ModalBody>
+        <div className="mb-3">
+          <b>Sharing level</b>
+          {levels.map(option => (
+            <Label className="d-flex align-items-center" key={option.value} check>
+              <Radio
+                className="mr-2"
+                name="share-level"
+                checked={level === option.value}
+                onChange={() => setLevel(option.value)}
+              />
+              {option.label}
+            </Label>
+          ))}
+        </div>
+        <div className="mb-3">
+          <b>Groups</b>
+          {props.groups.length === 0 && (
+            <p className="info-text">You are not a member of any groups</p>
+          )}
+          {props.groups.map(group => (
+            <Label className="d-flex align-items-center" key={group.id} check>
+              <Checkbox
+                className="mr-2"
+                checked={selectedGroups.includes(group.id)}
+                onChange={() => onGroupToggle(group.id)}
+              />
+              {group.title}
+            </Label>
+          ))}
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button onClick={() => props.onClose()}>
+          Cancel
+        </Button>
+        <Button type="primary" onClick={handleSave}>
+          Share
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import Layer from 'esri/layers/Layer'
+import PortalItem from 'esri/portal/PortalItem'
+import FeatureLayer from 'esri/layers/FeatureLayer'
+import MapImageLayer from 'esri/layers/MapImageLayer'
+import TileLayer from 'esri/layers/TileLayer'
+import VectorTileLayer from 'esri/layers/VectorTileLayer'
+import ImageryLayer from 'esri/layers/ImageryLayer'
+import WMSLayer from 'esri/layers/WMSLayer'
+import WMTSLayer from 'esri/layers/WMTSLayer'
+import GeoJSONLayer from 'esri/layers/GeoJSONLayer'
+import CSVLayer from 'esri/layers/CSVLayer'
+import KMLLayer from 'esri/layers/KMLLayer'
+import SceneLayer from 'esri/layers/SceneLayer'
+import BuildingSceneLayer from 'esri/layers/BuildingSceneLayer'
+import IntegratedMeshLayer from 'esri/layers/IntegratedMeshLayer'
+import GroupLayer from 'esri/layers/GroupLayer'
+import GraphicsLayer from 'esri/layers/GraphicsLayer'
+import { LayerConfig } from './models'
+
+/**
+ * Constructors of the layer types that can be recreated from a URL, keyed by layer type.
+ */
+const urlLayerTypes: { [type: string]: new (properties: any) => Layer } = {
+  feature: FeatureLayer,
+  'map-image': MapImageLayer,
+  tile: TileLayer,
+  'vector-tile': VectorTileLayer,
+  imagery: ImageryLayer,
+  wms: WMSLayer,
+  wmts: WMTSLayer,
+  geojson: GeoJSONLayer,
+  csv: CSVLayer,
+  kml: KMLLayer,
+  scene: SceneLayer,
+  'building-scene': BuildingSceneLayer,
+  'integrated-mesh': IntegratedMeshLayer
+}
+
+/** Layer types that are only drawn by 3D scene views. */
+const sceneOnlyLayerTypes = ['scene', 'building-scene', 'integrated-mesh']
+
+/**
+ * Checks whether a layer is only drawn by 3D scene views, so it is left out when a session is shown in 2D.
+ * @param cfg The saved layer configuration.
+ * @returns True for scene, building scene and integrated mesh layers.
+ */
+export const isSceneOnlyLayer = (cfg: LayerConfig): boolean => sceneOnlyLayerTypes.includes(cfg.type)
+
+/**
+ * Checks whether a layer missing from the map can be recreated from its saved configuration.
+ * @param cfg The saved layer configuration.
+ * @returns True if the config has a portal item, a URL of a supported type, or is a group or graphics layer.
+ */
+export const canCreateLayer = (cfg: LayerConfig): boolean =>
+  !!cfg.portalItemId || cfg.type === 'group' || cfg.type === 'graphics' || (!!cfg.url && cfg.type in urlLayerTypes)
+
+/**
+ * Creates a layer from a saved layer configuration, so it can be added to a map that doesn't have it.
+ * Layers that came from a portal item are recreated from the item, so item-level settings come back too;
+ * other layers are recreated from their URL. Group and graphics layers are created empty, ready for
+ * their children or graphics.
+ * The layer is not loaded.
+ * @param cfg The saved layer configuration.
+ * @returns A promise that resolves to the new layer.
+ * @throws An error if the layer type is not supported or the portal item cannot be read.
+ */
+export const createLayerFromConfig = async (cfg: LayerConfig): Promise<Layer> => {
+  const common = { id: cfg.id, title: cfg.title }
+
+  if (cfg.portalItemId) {
+    const portalItem = new PortalItem({ id: cfg.portalItemId })
+    // A feature layer item can hold several layers, so the saved layer ID picks the right one
+    if (cfg.type === 'feature') {
+      return new FeatureLayer({ ...common, portalItem, layerId: cfg.layerId })
+    }
+    const layer = await Layer.fromPortalItem({ portalItem })
+    layer.set(common)
+    return layer
+  }
+
+  if (cfg.type === 'group') {
+    return new GroupLayer(common)
+  }
+  if (cfg.type === 'graphics') {
+    return new GraphicsLayer(common)
+  }
+
+  const LayerType = urlLayerTypes[cfg.type]
+  if (!LayerType) throw new Error(`${cfg.type} layers can't be recreated`)
+  if (!cfg.url) throw new Error('no URL or portal item saved')
+
+  return new LayerType({ ...common, url: cfg.url })
+}
\ No newline at end of file
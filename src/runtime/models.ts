@@ -1,40 +1,272 @@
 export interface Workspace {
   id: string
   label: string
+  access?: SharingAccess
+  owner?: string
+  created?: number
+  modified?: number
+  /** Short description of the session, saved as the item snippet. */
+  snippet?: string
+  /** Free-form user tags, saved alongside the fixed session tags. */
+  tags?: string[]
+  /** URL (or data URL, right after saving) of the item thumbnail. Not stored in the payload. */
+  thumbnailUrl?: string
   [key: string]: any
 }
 
+/** Per-user session preferences, stored in the portal user's properties so they follow the user across browsers. */
+export interface SessionPreferences {
+  favorites: string[]
+  homeId?: string
+}
+
+/** Where sessions are saved: as portal items, or in the browser's IndexedDB. */
+export type SessionStorageKind = 'portal' | 'local'
+
+/**
+ * Which sessions to list: the user's own, ones shared with the user through their groups,
+ * or the template sessions chosen by the app author.
+ */
+export type SessionScope = 'mine' | 'shared' | 'templates'
+
+export type SessionSortField = 'title' | 'created' | 'modified'
+
+export interface SessionListOptions {
+  scope?: SessionScope
+  /** Free text matched against the item title, tags, snippet and description. */
+  query?: string
+  sortField?: SessionSortField
+  sortOrder?: 'asc' | 'desc'
+  /** 1-based index of the first result, as returned in `nextStart` by the previous page. */
+  start?: number
+  num?: number
+}
+
+export interface SessionListPage {
+  items: Workspace[]
+  total: number
+  /** Index of the next page, or -1 when there are no more results. */
+  nextStart: number
+}
+
+/** Tags and item type that identify session items in the portal. */
+export interface PortalItemSettings {
+  /** Comma-separated tags added to every saved session and required when listing sessions. */
+  tags: string
+  itemType: string
+}
+
+/** Sharing level of a portal item, as reported by the portal. */
+export type SharingAccess = 'private' | 'shared' | 'org' | 'public'
+
+export interface SessionSharing {
+  access: SharingAccess
+  groups: string[]
+}
+
+export interface PortalGroupInfo {
+  id: string
+  title: string
+}
+
 export interface LayerConfig {
   id: string
   type: string
   title?: string
   url?: string
+  /** ID of the portal item the layer was added from, if any; preferred over `url` when recreating the layer. */
+  portalItemId?: string
+  /** Layer within a multi-layer feature service item. */
+  layerId?: number
   visible: boolean
   opacity: number
   renderer: any
   definitionExpression?: string
   labelingInfo?: any[]
+  popupEnabled?: boolean
+  /** Pop-up template as JSON. */
+  popupTemplate?: any
+  outFields?: string[]
+  /** Field aliases keyed by field name. */
+  fieldAliases?: { [field: string]: string }
+  /** Visible scale range; 0 means no limit. */
+  minScale?: number
+  maxScale?: number
+  /** Position among its siblings: in the map, in its group layer, or in its parent's sublayers. */
   order: number
+  /** Children of a group layer, or the sublayers of a map image layer (or of a sublayer). */
+  sublayers?: LayerConfig[]
+  /** Graphics of a graphics layer (sketches, markups), as Graphic JSON with geometry, symbol and attributes. */
+  graphics?: any[]
+}
+
+/** An elevation layer of the ground of a 3D map. */
+export interface ElevationLayerInfo {
+  id: string
+  title?: string
+  url?: string
+  portalItemId?: string
+  visible: boolean
+}
+
+/** The ground of a 3D map: its elevation layers and how the surface is drawn. */
+export interface GroundState {
+  layers: ElevationLayerInfo[]
+  opacity?: number
+  /** Color of the surface where no basemap is drawn, as Color JSON. */
+  surfaceColor?: any
+  /** Whether the camera has to stay above the ground ("stay-above") or may go below it ("none"). */
+  navigationConstraint?: string
 }
 
 export interface MapSessionState {
   basemapId: string
   basemapJSON?: any            
   basemapSnapshot?: BasemapSnapshot        
+  /** Visible extent. Also saved for 3D views, so the session can be shown in a 2D view. */
   extent: any
   zoom?: number
+  /** Clockwise rotation of a 2D view, in degrees. */
   rotation?: number
+  /** Kind of view the state was captured from; sessions saved before 3D support are from 2D views. */
+  viewType?: '2d' | '3d'
+  /** Camera of a 3D view (position, tilt, heading and field of view), as Camera JSON. */
+  camera?: any
+  /** Ground and elevation of a 3D view. */
+  ground?: GroundState
   layers: LayerConfig[]
+  /** Graphics drawn directly on the view (`view.graphics`), as Graphic JSON. */
+  viewGraphics?: any[]
+  /** ID of the map widget the state was captured from. */
+  mapWidgetId?: string
+}
+
+/** States of the other map widgets connected to the widget, keyed by map widget ID. */
+export interface LinkedMapStates {
+  [mapWidgetId: string]: MapSessionState
 }
 
 export interface WorkspacePayload {
   valid: boolean
+  /**
+   * Version of the payload shape; older payloads are upgraded on load (see session-migrations.ts).
+   * Optional fields added since version 1 (pop-up and field settings, sublayers and group layer children,
+   * graphics, linked maps, the camera and ground of 3D views) leave it unchanged, as older widgets ignore them.
+   */
+  schemaVersion: number
   created: string
   modified?: string
+  /** Portal user who saved this state; the author of the version recorded when it is replaced. */
+  savedBy?: string
+  /** State of the main (first connected) map. */
   mapSession: MapSessionState
+  /** States of the other connected maps, e.g. an overview or comparison map. */
+  linkedMaps?: LinkedMapStates
   data: Workspace
 }
 
+/** Which parts of a session to apply when restoring it onto the map. */
+export interface RestoreOptions {
+  basemap: boolean
+  /** Ground and elevation layers of 3D maps. */
+  ground: boolean
+  /** The extent, or the camera of 3D maps. */
+  extent: boolean
+  /** Layer visibility, opacity and visible scale range. */
+  visibility: boolean
+  renderers: boolean
+  /** Layer definition expressions. */
+  filters: boolean
+  labels: boolean
+  /** Pop-ups, out fields and field aliases. */
+  popups: boolean
+  /** Graphics of graphics layers and of the view. */
+  graphics: boolean
+  /** Recreate session layers that are missing from the map. */
+  addLayers: boolean
+  /**
+   * Remove map layers that are not in the session and reorder layers to match it. Off = merge mode.
+   * The restore dialog only sets it along with `addLayers`.
+   */
+  removeLayers: boolean
+  /** Service URLs (or roots) that missing layers may be recreated from; set by the app author. Empty = any. */
+  allowedLayerUrls?: string[]
+}
+
+/** Outcome of restoring one part of a session. */
+export type RestoreStatus = 'restored' | 'recreated' | 'skipped' | 'failed'
+
+/**
+ * What happened to one part of a session (the basemap, the ground, the extent or camera, a layer,
+ * the view graphics, or a whole linked map that had nowhere to go) on restore.
+ */
+export interface RestoreItemResult {
+  kind: 'basemap' | 'ground' | 'extent' | 'layer' | 'graphics' | 'map'
+  /** Layer ID for layers (with parent IDs for nested layers, e.g. "group/child"); the kind otherwise. */
+  id: string
+  /** Key of the linked map state the item belongs to; unset for the main map. */
+  mapWidgetId?: string
+  label: string
+  /** URL the layer was restored (or failed to restore) from. */
+  url?: string
+  status: RestoreStatus
+  /** Why the item was skipped or failed. */
+  reason?: string
+  /** Settings that could not be applied to an item that was otherwise restored. */
+  warnings?: string[]
+}
+
+export interface RestoreResult {
+  items: RestoreItemResult[]
+}
+
+/** Metadata of one entry in a session's version history. The payload itself is stored separately. */
+export interface SessionVersion {
+  id: string
+  label: string
+  author: string
+  created: string
+  comment?: string
+}
+
+/** A single property that differs between two versions of a layer. */
+export interface LayerPropertyChange {
+  property: 'visible' | 'opacity' | 'definitionExpression' | 'renderer' | 'labelingInfo' |
+    'popupEnabled' | 'popupTemplate' | 'outFields' | 'fieldAliases' | 'minScale' | 'maxScale' | 'graphics' | 'order'
+  from: any
+  to: any
+}
+
+export interface LayerDiff {
+  id: string
+  title?: string
+  changes: LayerPropertyChange[]
+}
+
+/** How one of the other connected maps differs between two sessions. */
+export interface LinkedMapDiff {
+  /** Key of the linked map state: the ID of the map widget it was captured from. */
+  id: string
+  change: 'added' | 'removed' | 'changed'
+  /** The differences of a map that is in both sessions. */
+  diff?: SessionDiff
+}
+
+/** Differences between two map session states, going from `from` (e.g. the saved state) to `to`. */
+export interface SessionDiff {
+  basemap?: { from: string; to: string }
+  extent?: { from: any; to: any; description: string }
+  /** Change of the camera of a 3D view: position, altitude, tilt or heading. */
+  camera?: { description: string }
+  /** Changes to the ground of a 3D view: elevation layers, opacity and navigation. */
+  ground?: { description: string }
+  layersAdded: LayerConfig[]
+  layersRemoved: LayerConfig[]
+  layersChanged: LayerDiff[]
+  /** Differences of the other connected maps; only set when comparing whole sessions. */
+  linkedMaps?: LinkedMapDiff[]
+}
+
 export interface BasemapSnapshot {
   id: string
   portalItemId: string
@@ -0,0 +1,145 @@
+import { JimuMapView } from 'jimu-arcgis'
+import * as reactiveUtils from 'esri/core/reactiveUtils'
+import { MapSessionState, LinkedMapStates, WorkspacePayload } from './models'
+import { captureMapSession, captureLinkedMaps } from './workspace-manager'
+import { CURRENT_SCHEMA_VERSION, migrateWorkspacePayload } from './session-migrations'
+
+/** A working map state saved locally by autosave. */
+export interface AutosaveRecord {
+  saved: string
+  schemaVersion: number
+  mapSession: MapSessionState
+  /** States of the other connected maps, keyed by map widget ID. */
+  linkedMaps?: LinkedMapStates
+}
+
+/**
+ * Builds the local storage key for a widget's autosave, so several apps (or several
+ * instances of the widget) on the same origin don't overwrite each other's state.
+ * @param widgetId The ID of the widget instance.
+ * @returns The storage key.
+ */
+export const getAutosaveKey = (widgetId: string): string =>
+  `exb-session-autosave:${window.location.pathname}:${widgetId}`
+
+/**
+ * Reads the autosaved working state, if any.
+ * @param key The storage key.
+ * @returns The autosave record, or null if none is stored or it cannot be read.
+ */
+export const readAutosave = (key: string): AutosaveRecord | null => {
+  try {
+    const text = window.localStorage.getItem(key)
+    if (!text) return null
+    const record = JSON.parse(text)
+    return record?.mapSession ? record : null
+  } catch (e) {
+    console.warn('Could not read autosaved map state', e)
+    return null
+  }
+}
+
+/**
+ * Removes the autosaved working state.
+ * @param key The storage key.
+ */
+export const clearAutosave = (key: string): void => {
+  try {
+    window.localStorage.removeItem(key)
+  } catch { /* ignore */ }
+}
+
+/**
+ * Wraps an autosave record in a workspace payload (upgraded to the current schema) so it
+ * can be applied to the map like any saved session.
+ * @param record The autosave record.
+ * @returns The equivalent workspace payload.
+ */
+export const autosaveToPayload = (record: AutosaveRecord): WorkspacePayload =>
+  migrateWorkspacePayload({
+    valid: true,
+    schemaVersion: record.schemaVersion,
+    created: record.saved,
+    mapSession: record.mapSession,
+    linkedMaps: record.linkedMaps,
+    data: { id: '', label: 'Previous working state' }
+  })
+
+/**
+ * Reads the parts of a view that autosave watches, so the watch fires whenever any of them change:
+ * the extent once the view settles, the basemap, the view graphics, and the properties of every
+ * layer (including the children of group layers) and of map image sublayers.
+ * @param jimuMapView The JimuMapView instance to read.
+ * @returns The watched values.
+ */
+const watchedState = (jimuMapView: JimuMapView): any[] => {
+  const view = jimuMapView.view
+  return [
+    view.stationary ? view.extent : null,
+    view.map.basemap,
+    view.graphics.length,
+    view.map.allLayers.map(layer => [
+      layer.visible,
+      layer.opacity,
+      (layer as any).definitionExpression,
+      (layer as any).renderer,
+      (layer as any).labelingInfo,
+      (layer as any).graphics?.length,
+      (layer as any).allSublayers?.map((sublayer: any) => [
+        sublayer.visible,
+        sublayer.opacity,
+        sublayer.definitionExpression
+      ]).toArray()
+    ]).toArray()
+  ]
+}
+
+/**
+ * Starts saving the working map state to local storage whenever a view settles after a change
+ * to the extent, basemap, layer list or layer properties, on the main map or any of the other
+ * connected maps. Saves are debounced.
+ * @param jimuMapView The JimuMapView instance of the main map.
+ * @param key The storage key.
+ * @param delaySeconds Seconds without changes before the state is saved.
+ * @param linkedMapViews The views of the other connected maps, saved along with the main map.
+ * @returns A function that stops autosaving.
+ */
+export const startAutosave = (
+  jimuMapView: JimuMapView,
+  key: string,
+  delaySeconds: number,
+  linkedMapViews: JimuMapView[] = []
+): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const save = async () => {
+    try {
+      const record: AutosaveRecord = {
+        saved: new Date().toISOString(),
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        mapSession: await captureMapSession(jimuMapView),
+        linkedMaps: await captureLinkedMaps(linkedMapViews)
+      }
+      window.localStorage.setItem(key, JSON.stringify(record))
+    } catch (e) {
+      // Storage may be full or disabled; autosave is best effort
+      console.warn('Could not autosave map state', e)
+    }
+  }
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(save, Math.max(delaySeconds, 1) * 1000)
+  }
+
+  // Reading these properties inside the getter makes the watch fire whenever any of them change
+  const handle = reactiveUtils.watch(
+    () => [jimuMapView, ...linkedMapViews].filter(jmv => jmv?.view).map(watchedState),
+    schedule
+  )
+
+  return () => {
+    handle.remove()
+    if (timer) clearTimeout(timer)
+  }
+}
\ No newline at end of file
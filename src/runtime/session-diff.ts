@@ -0,0 +1,331 @@
+import { MapSessionState, WorkspacePayload, LayerConfig, LayerPropertyChange, SessionDiff, LinkedMapDiff, GroundState } from './models'
+
+/**
+ * Serializes a value to JSON with object keys sorted, so that two objects with the same
+ * content compare equal regardless of property order.
+ * @param value The value to serialize.
+ * @returns A stable JSON string.
+ */
+const stableStringify = (value: any): string => {
+  if (value === undefined) return 'undefined'
+  if (value === null || typeof value !== 'object') return JSON.stringify(value)
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  const keys = Object.keys(value).filter(k => value[k] !== undefined).sort()
+  return `{${keys.map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`
+}
+
+/**
+ * Returns a human readable name for the basemap of a session.
+ * @param state The map session state.
+ * @returns The basemap title, well-known id or portal item id.
+ */
+const describeBasemap = (state: MapSessionState): string =>
+  state.basemapSnapshot?.title || state.basemapId || state.basemapSnapshot?.portalItemId || '(none)'
+
+/**
+ * Returns a key identifying the basemap of a session, used to detect basemap swaps.
+ * @param state The map session state.
+ * @returns The basemap's portal item id, well-known id or title.
+ */
+const basemapKey = (state: MapSessionState): string =>
+  state.basemapSnapshot?.portalItemId || state.basemapId || state.basemapSnapshot?.title || ''
+
+/**
+ * Compares two saved extents. Small differences (under 0.5% of the extent width) are ignored,
+ * as the view snaps the extent slightly differently each time it is restored.
+ * @param from The original extent JSON.
+ * @param to The new extent JSON.
+ * @returns A description of the change, or null if the extents are effectively the same.
+ */
+const describeExtentChange = (from: any, to: any): string | null => {
+  if (!from && !to) return null
+  if (!from || !to) return to ? 'Extent added' : 'Extent removed'
+
+  const fromWidth = from.xmax - from.xmin
+  const toWidth = to.xmax - to.xmin
+  const tolerance = Math.abs(fromWidth) * 0.005
+
+  const dx = ((to.xmin + to.xmax) - (from.xmin + from.xmax)) / 2
+  const dy = ((to.ymin + to.ymax) - (from.ymin + from.ymax)) / 2
+  const moved = Math.abs(dx) > tolerance || Math.abs(dy) > tolerance
+  const zoomed = Math.abs(toWidth - fromWidth) > tolerance
+
+  if (!moved && !zoomed) return null
+
+  const parts: string[] = []
+  if (moved) {
+    parts.push(`centre moved ${Math.round(Math.sqrt(dx * dx + dy * dy))} map units`)
+  }
+  if (zoomed) {
+    parts.push(toWidth < fromWidth ? 'zoomed in' : 'zoomed out')
+  }
+  return parts.join(', ')
+}
+
+/**
+ * Compares two saved cameras of 3D views. Small differences are ignored, as the view settles
+ * slightly differently each time a camera is restored.
+ * @param from The original Camera JSON.
+ * @param to The new Camera JSON.
+ * @returns A description of the change, or null if the cameras are effectively the same.
+ */
+const describeCameraChange = (from: any, to: any): string | null => {
+  if (!from && !to) return null
+  if (!from || !to) return to ? 'Camera added (3D view)' : 'Camera removed (2D view)'
+
+  const fromPosition = from.position || {}
+  const toPosition = to.position || {}
+  const tolerance = Math.max(Math.abs(fromPosition.z || 0) * 0.005, 1)
+  const dx = (toPosition.x || 0) - (fromPosition.x || 0)
+  const dy = (toPosition.y || 0) - (fromPosition.y || 0)
+  const dz = (toPosition.z || 0) - (fromPosition.z || 0)
+  // Headings wrap around, so 359° to 1° is a 2° turn
+  const turn = ((((to.heading || 0) - (from.heading || 0)) % 360) + 540) % 360 - 180
+  const tilt = (to.tilt || 0) - (from.tilt || 0)
+
+  const parts: string[] = []
+  if (Math.sqrt(dx * dx + dy * dy) > tolerance) {
+    parts.push(`position moved ${Math.round(Math.sqrt(dx * dx + dy * dy))} map units`)
+  }
+  if (Math.abs(dz) > tolerance) {
+    parts.push(dz > 0 ? `raised ${Math.round(dz)} m` : `lowered ${Math.round(-dz)} m`)
+  }
+  if (Math.abs(tilt) > 0.5) {
+    parts.push(`tilt ${Math.round(from.tilt || 0)}° → ${Math.round(to.tilt || 0)}°`)
+  }
+  if (Math.abs(turn) > 0.5) {
+    parts.push(`heading ${Math.round(from.heading || 0)}° → ${Math.round(to.heading || 0)}°`)
+  }
+  return parts.length > 0 ? parts.join(', ') : null
+}
+
+/**
+ * Compares two saved grounds of 3D views.
+ * @param from The original ground state.
+ * @param to The new ground state.
+ * @returns A description of the changes, or null if the grounds are the same.
+ */
+const describeGroundChange = (from?: GroundState, to?: GroundState): string | null => {
+  if (!from && !to) return null
+  if (!from || !to) return to ? 'Ground added' : 'Ground removed'
+
+  const fromLayers = from.layers || []
+  const toLayers = to.layers || []
+  const sameLayer = (a: { id: string; url?: string }, b: { id: string; url?: string }) =>
+    a.id === b.id || (!!a.url && a.url === b.url)
+  const name = (info: { id: string; title?: string }) => info.title || info.id
+
+  const parts: string[] = []
+  toLayers.filter(info => !fromLayers.some(other => sameLayer(info, other)))
+    .forEach(info => parts.push(`elevation layer ${name(info)} added`))
+  fromLayers.filter(info => !toLayers.some(other => sameLayer(info, other)))
+    .forEach(info => parts.push(`elevation layer ${name(info)} removed`))
+  toLayers.forEach(info => {
+    const previous = fromLayers.find(other => sameLayer(info, other))
+    if (previous && previous.visible !== info.visible) {
+      parts.push(`elevation layer ${name(info)} ${info.visible ? 'shown' : 'hidden'}`)
+    }
+  })
+  if (Math.abs((from.opacity ?? 1) - (to.opacity ?? 1)) > 0.001) {
+    parts.push(`opacity ${Math.round((from.opacity ?? 1) * 100)}% → ${Math.round((to.opacity ?? 1) * 100)}%`)
+  }
+  if (stableStringify(from.surfaceColor) !== stableStringify(to.surfaceColor)) {
+    parts.push('surface colour changed')
+  }
+  if ((from.navigationConstraint || 'stay-above') !== (to.navigationConstraint || 'stay-above')) {
+    parts.push(to.navigationConstraint === 'none' ? 'navigation below ground allowed' : 'navigation kept above ground')
+  }
+  return parts.length > 0 ? parts.join(', ') : null
+}
+
+/**
+ * Finds the layer in a list matching a layer config, by ID first and then by URL.
+ * @param layers The layers to search.
+ * @param cfg The layer config to match.
+ * @returns The matching layer config, or undefined.
+ */
+const findMatchingLayer = (layers: LayerConfig[], cfg: LayerConfig): LayerConfig | undefined =>
+  layers.find(l => l.id === cfg.id) || (cfg.url ? layers.find(l => l.url === cfg.url) : undefined)
+
+/**
+ * Lists the properties that differ between two versions of the same layer.
+ * @param from The original layer config.
+ * @param to The new layer config.
+ * @returns The changed properties.
+ */
+const diffLayer = (from: LayerConfig, to: LayerConfig): LayerPropertyChange[] => {
+  const changes: LayerPropertyChange[] = []
+
+  if (from.visible !== to.visible) {
+    changes.push({ property: 'visible', from: from.visible, to: to.visible })
+  }
+  if (Math.abs((from.opacity ?? 1) - (to.opacity ?? 1)) > 0.001) {
+    changes.push({ property: 'opacity', from: from.opacity, to: to.opacity })
+  }
+  if ((from.definitionExpression || '') !== (to.definitionExpression || '')) {
+    changes.push({ property: 'definitionExpression', from: from.definitionExpression, to: to.definitionExpression })
+  }
+  if (stableStringify(from.renderer) !== stableStringify(to.renderer)) {
+    changes.push({ property: 'renderer', from: from.renderer, to: to.renderer })
+  }
+  if (stableStringify(from.labelingInfo) !== stableStringify(to.labelingInfo)) {
+    changes.push({ property: 'labelingInfo', from: from.labelingInfo, to: to.labelingInfo })
+  }
+  if ((from.popupEnabled ?? true) !== (to.popupEnabled ?? true)) {
+    changes.push({ property: 'popupEnabled', from: from.popupEnabled ?? true, to: to.popupEnabled ?? true })
+  }
+  for (const property of ['popupTemplate', 'outFields', 'fieldAliases'] as const) {
+    if (stableStringify(from[property]) !== stableStringify(to[property])) {
+      changes.push({ property, from: from[property], to: to[property] })
+    }
+  }
+  if (stableStringify(from.graphics) !== stableStringify(to.graphics)) {
+    changes.push({ property: 'graphics', from: from.graphics, to: to.graphics })
+  }
+  for (const property of ['minScale', 'maxScale'] as const) {
+    if ((from[property] || 0) !== (to[property] || 0)) {
+      changes.push({ property, from: from[property], to: to[property] })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Compares two lists of sibling layers and adds the differences to a session diff, walking
+ * down into group layer children and sublayers. Nested layers are named after their parents,
+ * e.g. "Water network › Pipes".
+ * @param fromLayers The original layers.
+ * @param toLayers The new layers.
+ * @param diff The diff to add to.
+ * @param parent The layer the lists belong to, when comparing sublayers.
+ */
+const diffLayerLists = (
+  fromLayers: LayerConfig[],
+  toLayers: LayerConfig[],
+  diff: SessionDiff,
+  parent?: { id: string; title: string }
+): void => {
+  const nested = (cfg: LayerConfig): LayerConfig => parent
+    ? { ...cfg, id: `${parent.id}/${cfg.id}`, title: `${parent.title} › ${cfg.title || cfg.id}` }
+    : cfg
+
+  // Pair up layers present in both states, in draw order
+  const pairs: Array<{ from: LayerConfig; to: LayerConfig }> = []
+  for (const cfg of [...toLayers].sort((a, b) => a.order - b.order)) {
+    const previous = findMatchingLayer(fromLayers, cfg)
+    if (previous) {
+      pairs.push({ from: previous, to: cfg })
+    } else {
+      diff.layersAdded.push(nested(cfg))
+    }
+  }
+
+  // Compare positions among the shared layers only, so adding or removing a layer
+  // doesn't report every layer above it as moved
+  const fromRanks = [...pairs].sort((a, b) => a.from.order - b.from.order).map(p => p.from)
+
+  pairs.forEach((pair, toRank) => {
+    const changes = diffLayer(pair.from, pair.to)
+    const fromRank = fromRanks.indexOf(pair.from)
+    if (fromRank !== toRank) {
+      changes.push({ property: 'order', from: fromRank, to: toRank })
+    }
+    const named = nested({ ...pair.to, title: pair.to.title || pair.from.title })
+    if (changes.length > 0) {
+      diff.layersChanged.push({ id: named.id, title: named.title, changes })
+    }
+    if (pair.from.sublayers || pair.to.sublayers) {
+      diffLayerLists(pair.from.sublayers || [], pair.to.sublayers || [], diff, { id: named.id, title: named.title || named.id })
+    }
+  })
+
+  for (const cfg of fromLayers) {
+    if (!findMatchingLayer(toLayers, cfg)) {
+      diff.layersRemoved.push(nested(cfg))
+    }
+  }
+}
+
+/**
+ * Compares two map session states.
+ * @param from The original state, e.g. the saved session.
+ * @param to The new state, e.g. the current map.
+ * @returns The differences going from `from` to `to`.
+ */
+export const diffMapSessions = (from: MapSessionState, to: MapSessionState): SessionDiff => {
+  const diff: SessionDiff = {
+    layersAdded: [],
+    layersRemoved: [],
+    layersChanged: []
+  }
+
+  if (basemapKey(from) !== basemapKey(to)) {
+    diff.basemap = { from: describeBasemap(from), to: describeBasemap(to) }
+  }
+
+  const extentChange = describeExtentChange(from.extent, to.extent)
+  if (extentChange) {
+    diff.extent = { from: from.extent, to: to.extent, description: extentChange }
+  }
+
+  const cameraChange = describeCameraChange(from.camera, to.camera)
+  if (cameraChange) {
+    diff.camera = { description: cameraChange }
+  }
+
+  const groundChange = describeGroundChange(from.ground, to.ground)
+  if (groundChange) {
+    diff.ground = { description: groundChange }
+  }
+
+  diffLayerLists(from.layers || [], to.layers || [], diff)
+
+  return diff
+}
+
+/**
+ * Compares two whole sessions: the main map and each of the other connected maps.
+ * @param from The original session, e.g. the saved session.
+ * @param to The new session, e.g. the current maps.
+ * @returns The differences going from `from` to `to`, with the linked maps that differ.
+ */
+export const diffSessionPayloads = (
+  from: Pick<WorkspacePayload, 'mapSession' | 'linkedMaps'>,
+  to: Pick<WorkspacePayload, 'mapSession' | 'linkedMaps'>
+): SessionDiff => {
+  const diff = diffMapSessions(from.mapSession, to.mapSession)
+  const fromMaps = from.linkedMaps || {}
+  const toMaps = to.linkedMaps || {}
+
+  const linkedMaps: LinkedMapDiff[] = []
+  for (const id of Object.keys(toMaps)) {
+    if (!fromMaps[id]) {
+      linkedMaps.push({ id, change: 'added' })
+      continue
+    }
+    const mapDiff = diffMapSessions(fromMaps[id], toMaps[id])
+    if (!isEmptyDiff(mapDiff)) linkedMaps.push({ id, change: 'changed', diff: mapDiff })
+  }
+  for (const id of Object.keys(fromMaps)) {
+    if (!toMaps[id]) linkedMaps.push({ id, change: 'removed' })
+  }
+
+  if (linkedMaps.length > 0) diff.linkedMaps = linkedMaps
+  return diff
+}
+
+/**
+ * Checks whether a diff contains any changes.
+ * @param diff The diff to check.
+ * @returns True if the two states are effectively the same.
+ */
+export const isEmptyDiff = (diff: SessionDiff): boolean =>
+  !diff.basemap &&
+  !diff.extent &&
+  !diff.camera &&
+  !diff.ground &&
+  diff.layersAdded.length === 0 &&
+  diff.layersRemoved.length === 0 &&
+  diff.layersChanged.length === 0 &&
+  !diff.linkedMaps?.length
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { WorkspacePayload } from './models'
+import { migrateWorkspacePayload } from './session-migrations'
+
+const isObject = (value: any): boolean => value !== null && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Checks that an extent JSON object has numeric bounds.
+ * @param extent The extent to check.
+ * @returns True if the extent has numeric xmin, ymin, xmax and ymax.
+ */
+const isValidExtent = (extent: any): boolean =>
+  isObject(extent) && ['xmin', 'ymin', 'xmax', 'ymax'].every(k => typeof extent[k] === 'number')
+
+/**
+ * Checks that a parsed JSON value has the shape of a MapSessionState.
+ * @param session The parsed JSON value.
+ * @param name Where the value is in the file, used in the messages (e.g. "mapSession").
+ * @param issues The list the problems found are added to.
+ */
+const validateMapSessionState = (session: any, name: string, issues: string[]): void => {
+  if (!isObject(session)) {
+    issues.push(`"${name}" must be an object`)
+    return
+  }
+  if (session.extent !== undefined && session.extent !== null && !isValidExtent(session.extent)) {
+    issues.push(`"${name}.extent" must have numeric xmin, ymin, xmax and ymax`)
+  }
+  if (session.basemapSnapshot !== undefined && !isObject(session.basemapSnapshot)) {
+    issues.push(`"${name}.basemapSnapshot" must be an object`)
+  }
+  if (session.viewGraphics !== undefined && !Array.isArray(session.viewGraphics)) {
+    issues.push(`"${name}.viewGraphics" must be an array`)
+  }
+  if (session.camera !== undefined && !isObject(session.camera)) {
+    issues.push(`"${name}.camera" must be an object`)
+  }
+  if (session.ground !== undefined && (!isObject(session.ground) || !Array.isArray(session.ground.layers))) {
+    issues.push(`"${name}.ground" must be an object with a layers array`)
+  }
+  if (!Array.isArray(session.layers)) {
+    issues.push(`"${name}.layers" must be an array`)
+  } else {
+    session.layers.forEach((layer: any, idx: number) => {
+      const where = `"${name}.layers[${idx}]"`
+      if (!isObject(layer)) {
+        issues.push(`${where} must be an object`)
+        return
+      }
+      if (typeof layer.id !== 'string') issues.push(`${where}.id must be a string`)
+      if (typeof layer.type !== 'string') issues.push(`${where}.type must be a string`)
+      if (typeof layer.visible !== 'boolean') issues.push(`${where}.visible must be a boolean`)
+      if (typeof layer.opacity !== 'number') issues.push(`${where}.opacity must be a number`)
+      if (typeof layer.order !== 'number') issues.push(`${where}.order must be a number`)
+      if (layer.sublayers !== undefined && !Array.isArray(layer.sublayers)) issues.push(`${where}.sublayers must be an array`)
+    })
+  }
+}
+
+/**
+ * Validates that a parsed JSON value has the shape of a WorkspacePayload.
+ * @param json The parsed JSON value.
+ * @returns The value typed as a WorkspacePayload.
+ * @throws An error listing the problems found when the value is not a valid session.
+ */
+export const validateWorkspacePayload = (json: any): WorkspacePayload => {
+  const issues: string[] = []
+
+  if (!isObject(json)) {
+    throw new Error('Invalid session file: expected a JSON object')
+  }
+
+  if (json.valid !== true) issues.push('"valid" must be true')
+  if (!isObject(json.data)) {
+    issues.push('"data" must be an object')
+  } else if (typeof json.data.label !== 'string' || !json.data.label.trim()) {
+    issues.push('"data.label" must be a non-empty string')
+  }
+
+  validateMapSessionState(json.mapSession, 'mapSession', issues)
+
+  if (json.linkedMaps !== undefined) {
+    if (!isObject(json.linkedMaps)) {
+      issues.push('"linkedMaps" must be an object')
+    } else {
+      Object.keys(json.linkedMaps).forEach(id => validateMapSessionState(json.linkedMaps[id], `linkedMaps.${id}`, issues))
+    }
+  }
+
+  if (issues.length > 0) {
+    const shown = issues.slice(0, 5).join('; ')
+    const more = issues.length > 5 ? ` (and ${issues.length - 5} more)` : ''
+    throw new Error(`Invalid session file: ${shown}${more}`)
+  }
+
+  return json as WorkspacePayload
+}
+
+/**
+ * Reads and validates a session JSON file chosen by the user.
+ * Files exported by older versions of the widget are upgraded to the current schema first.
+ * @param file The file to read.
+ * @returns A promise that resolves to the validated workspace payload.
+ */
+export const readSessionFile = async (file: File): Promise<WorkspacePayload> => {
+  const text = await file.text()
+  let json: any
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error(`Invalid session file: "${file.name}" is not valid JSON`)
+  }
+  if (json?.valid !== true) {
+    throw new Error(`Invalid session file: "${file.name}" is not a workspace session`)
+  }
+  return validateWorkspacePayload(migrateWorkspacePayload(json))
+}
+
+/**
+ * Downloads a workspace payload as a JSON file named after the session.
+ * @param payload The workspace payload to export.
+ */
+export const exportSessionFile = (payload: WorkspacePayload): void => {
+  const name = (payload.data?.label || 'session').replace(/[^\w\- ]+/g, '').trim() || 'session'
+  const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${name}.json`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  // Some browsers start the download after click() returns, so keep the URL alive until then
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
\ No newline at end of file
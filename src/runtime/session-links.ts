@@ -0,0 +1,263 @@
+import { MapSessionState, WorkspacePayload, LayerConfig } from './models'
+import { CURRENT_SCHEMA_VERSION, migrateWorkspacePayload } from './session-migrations'
+import { validateWorkspacePayload } from './session-io'
+
+/** URL query parameter carrying the ID of the session to open when the app loads. */
+export const sessionLinkParam = 'session'
+
+/** URL fragment parameter carrying an encoded map state, for links that don't need a portal item. */
+export const sessionStateParam = 'session-state'
+
+/**
+ * Longest state link we hand out. Browsers accept much longer URLs, but chat tools and
+ * email clients start truncating or refusing links beyond a few thousand characters.
+ */
+const maxStateLinkLength = 4000
+
+/**
+ * Builds a link to the current app that opens the given session once the map is ready.
+ * Any other query parameters and the hash of the current URL are preserved.
+ * @param itemId The ID of the workspace session item.
+ * @returns The full app URL.
+ */
+export const buildSessionLink = (itemId: string): string => {
+  const url = new URL(window.location.href)
+  url.searchParams.set(sessionLinkParam, itemId)
+  return url.toString()
+}
+
+/**
+ * Reads the session ID from the current app URL, if the app was opened from a session link.
+ * @returns The linked session item ID, or null.
+ */
+export const getLinkedSessionId = (): string | null => {
+  const id = new URL(window.location.href).searchParams.get(sessionLinkParam)
+  // Portal item IDs are 32 hex characters; ignore anything else rather than querying the portal with it
+  return id && /^[0-9a-f]{32}$/i.test(id) ? id : null
+}
+
+/**
+ * Copies text to the clipboard, falling back to a temporary text area in browsers
+ * (or non-secure contexts) without the async clipboard API.
+ * @param text The text to copy.
+ */
+export const copyToClipboard = async (text: string): Promise<void> => {
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text)
+    return
+  }
+  const textArea = document.createElement('textarea')
+  textArea.value = text
+  textArea.style.position = 'fixed'
+  textArea.style.opacity = '0'
+  document.body.appendChild(textArea)
+  textArea.select()
+  const copied = document.execCommand('copy')
+  document.body.removeChild(textArea)
+  if (!copied) throw new Error('Could not copy the link to the clipboard')
+}
+
+// -------------------------------------------------------------------------------------
+//  STATE LINKS (NO PORTAL ITEM)
+// -------------------------------------------------------------------------------------
+
+/**
+ * Encodes bytes as URL-safe base64 without padding.
+ * @param bytes The bytes to encode.
+ * @returns The base64url string.
+ */
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = ''
+  bytes.forEach(b => { binary += String.fromCharCode(b) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decodes URL-safe base64 (with or without padding) into bytes.
+ * @param text The base64url string.
+ * @returns The decoded bytes.
+ */
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, c => c.charCodeAt(0))
+}
+
+/**
+ * Pipes bytes through a compression or decompression stream.
+ * @param bytes The input bytes.
+ * @param stream The transform stream to use.
+ * @returns A promise that resolves to the transformed bytes.
+ */
+const transformBytes = async (bytes: Uint8Array, stream: any): Promise<Uint8Array> => {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream))
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+/**
+ * Encodes a JSON value for use in a URL. The first character marks the format:
+ * "z" for deflate-compressed JSON, "j" for plain JSON where the browser lacks CompressionStream.
+ * @param value The value to encode.
+ * @returns A promise that resolves to the encoded string.
+ */
+const encodeJSON = async (value: any): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value))
+  const CompressionStreamCtor = (window as any).CompressionStream
+  if (CompressionStreamCtor) {
+    return 'z' + toBase64Url(await transformBytes(bytes, new CompressionStreamCtor('deflate-raw')))
+  }
+  return 'j' + toBase64Url(bytes)
+}
+
+/**
+ * Decodes a value produced by encodeJSON.
+ * @param text The encoded string.
+ * @returns A promise that resolves to the decoded value.
+ */
+const decodeJSON = async (text: string): Promise<any> => {
+  let bytes = fromBase64Url(text.slice(1))
+  if (text[0] === 'z') {
+    const DecompressionStreamCtor = (window as any).DecompressionStream
+    if (!DecompressionStreamCtor) throw new Error('This browser cannot open compressed map links')
+    bytes = await transformBytes(bytes, new DecompressionStreamCtor('deflate-raw'))
+  } else if (text[0] !== 'j') {
+    throw new Error('Unrecognised map link format')
+  }
+  return JSON.parse(new TextDecoder().decode(bytes))
+}
+
+/**
+ * Applies a change to every layer of a saved layer tree, including group layer children and sublayers.
+ * @param layers The saved layers.
+ * @param fn Returns the changed copy of a layer; its sublayers are changed afterwards.
+ * @returns The changed layers.
+ */
+const mapLayerTree = (layers: LayerConfig[], fn: (layer: LayerConfig) => LayerConfig): LayerConfig[] =>
+  layers.map(layer => {
+    const changed = fn(layer)
+    return changed.sublayers ? { ...changed, sublayers: mapLayerTree(changed.sublayers, fn) } : changed
+  })
+
+/**
+ * Ways to shrink a map state that is too large for a link, applied in order until it fits.
+ * Each step keeps what matters most for a quick "look at this": extent, layer visibility and filters.
+ */
+const stateReductions: Array<{ label: string; reduce: (state: MapSessionState) => MapSessionState }> = [
+  {
+    label: 'layer pop-ups and field settings',
+    reduce: state => ({
+      ...state,
+      layers: mapLayerTree(state.layers, ({ popupTemplate, outFields, fieldAliases, ...layer }) => layer)
+    })
+  },
+  {
+    label: 'layer symbology and labels',
+    reduce: state => ({
+      ...state,
+      layers: mapLayerTree(state.layers, ({ renderer, labelingInfo, ...layer }) => ({ ...layer, renderer: undefined }))
+    })
+  },
+  {
+    label: 'graphics',
+    reduce: state => ({
+      ...state,
+      viewGraphics: undefined,
+      layers: mapLayerTree(state.layers, layer => layer.graphics ? { ...layer, graphics: [] } : layer)
+    })
+  },
+  {
+    label: 'custom basemap layers',
+    reduce: state => state.basemapSnapshot
+      ? { ...state, basemapSnapshot: { ...state.basemapSnapshot, baseLayers: [], referenceLayers: [] } }
+      : state
+  }
+]
+
+/**
+ * Sets one parameter of a URL fragment, keeping the other parameters (e.g. the widget states
+ * Experience Builder keeps in the hash) as they are.
+ * @param hash The current fragment, with or without its leading "#".
+ * @param name The parameter to add or replace.
+ * @param value The encoded parameter value.
+ * @returns The new fragment, without the leading "#".
+ */
+const setHashParam = (hash: string, name: string, value: string): string => {
+  const others = hash.replace(/^#/, '').split('&')
+    .filter(part => part && part !== name && !part.startsWith(`${name}=`))
+  return [...others, `${name}=${value}`].join('&')
+}
+
+/**
+ * Builds a link to the current app that restores a map state without saving it to the portal.
+ * If the full state makes the link too long, pop-up and field settings, renderers, graphics and then
+ * custom basemap layers are dropped.
+ * Other parameters in the hash of the current URL are preserved.
+ * @param state The map state to encode.
+ * @returns A promise that resolves to the link and the parts that were dropped,
+ *          or null if the state is too large even after reducing it.
+ */
+export const buildStateLink = async (
+  state: MapSessionState
+): Promise<{ url: string; dropped: string[] } | null> => {
+  const dropped: string[] = []
+  let current = state
+
+  for (let step = 0; step <= stateReductions.length; step++) {
+    const encoded = await encodeJSON({ v: CURRENT_SCHEMA_VERSION, s: current })
+    const url = new URL(window.location.href)
+    url.searchParams.delete(sessionLinkParam)
+    url.hash = setHashParam(url.hash, sessionStateParam, encoded)
+
+    if (url.toString().length <= maxStateLinkLength) {
+      return { url: url.toString(), dropped }
+    }
+    if (step < stateReductions.length) {
+      current = stateReductions[step].reduce(current)
+      dropped.push(stateReductions[step].label)
+    }
+  }
+
+  return null
+}
+
+/** Shown for map links that can't be decoded or don't hold a usable map state. */
+const damagedLinkMessage = 'The map link is damaged or incomplete and could not be opened'
+
+/**
+ * Reads a map state from the current app URL, if the app was opened from a state link.
+ * The state is wrapped in a payload, upgraded to the current schema and checked the same way
+ * as imported session files, ready to apply to the map.
+ * @returns A promise that resolves to the linked payload, or null if the URL carries no state.
+ * @throws An error if the link is damaged, or comes from a newer version of the widget.
+ */
+export const getLinkedSessionState = async (): Promise<WorkspacePayload | null> => {
+  const hash = window.location.hash.replace(/^#/, '')
+  const param = hash.split('&').find(part => part.startsWith(`${sessionStateParam}=`))
+  if (!param) return null
+
+  let decoded: any
+  try {
+    decoded = await decodeJSON(param.slice(sessionStateParam.length + 1))
+  } catch (e) {
+    console.error(e)
+    throw new Error(damagedLinkMessage)
+  }
+
+  const isObject = (value: any): boolean => value !== null && typeof value === 'object' && !Array.isArray(value)
+  if (!isObject(decoded) || !isObject(decoded.s) || !Array.isArray(decoded.s.layers)) {
+    throw new Error(damagedLinkMessage)
+  }
+
+  const payload = migrateWorkspacePayload({
+    valid: true,
+    schemaVersion: decoded.v,
+    created: new Date().toISOString(),
+    mapSession: decoded.s,
+    data: { id: '', label: 'Shared map' }
+  })
+  try {
+    return validateWorkspacePayload(payload)
+  } catch (e) {
+    console.error(e)
+    throw new Error(damagedLinkMessage)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { getAppStore } from 'jimu-core'
+import { JimuMapView } from 'jimu-arcgis'
+import { WorkspacePayload, MapSessionState, RestoreOptions, RestoreResult, RestoreItemResult } from './models'
+import {
+  applyMapSession,
+  retryFailedRestore,
+  takeMapSnapshot,
+  restoreMapSnapshot,
+  fullRestoreOptions,
+  type MapSnapshot
+} from './workspace-manager'
+
+/** A saved map state and the connected map it is restored onto. */
+export interface MapRestoreTarget {
+  /** Key of the linked map state; unset for the main map state. */
+  linkedId?: string
+  state: MapSessionState
+  /** The map the state is restored onto, or null when every connected map is taken. */
+  jimuMapView: JimuMapView | null
+}
+
+/** Snapshots of every connected map, taken together so that loading a session can be undone in one step. */
+export type MapSnapshotSet = Array<{ jimuMapView: JimuMapView; snapshot: MapSnapshot }>
+
+/**
+ * Matches the map states of a session with the connected maps.
+ * Each state goes to the map widget it was captured from when that widget is connected.
+ * Otherwise (e.g. a session saved in another app, or before a map was replaced) the states fall back
+ * to the remaining maps in the order of the widget settings, the main map state first.
+ * @param payload The session payload.
+ * @param jimuMapViews The connected maps, the main map first.
+ * @returns One target per saved map state, the main map state first.
+ */
+export const resolveMapTargets = (payload: WorkspacePayload, jimuMapViews: JimuMapView[]): MapRestoreTarget[] => {
+  const unused = jimuMapViews.filter(jmv => jmv?.view)
+  const takeView = (mapWidgetId?: string): JimuMapView | null => {
+    const index = mapWidgetId ? unused.findIndex(jmv => jmv.mapWidgetId === mapWidgetId) : -1
+    return index >= 0 ? unused.splice(index, 1)[0] : null
+  }
+
+  const targets: MapRestoreTarget[] = [
+    { state: payload.mapSession, jimuMapView: takeView(payload.mapSession.mapWidgetId) },
+    ...Object.keys(payload.linkedMaps || {}).map(linkedId => ({
+      linkedId,
+      state: payload.linkedMaps[linkedId],
+      jimuMapView: takeView(payload.linkedMaps[linkedId].mapWidgetId || linkedId)
+    }))
+  ]
+  targets.forEach(target => {
+    if (!target.jimuMapView) target.jimuMapView = unused.shift() || null
+  })
+  return targets
+}
+
+/**
+ * Gets the label of a map widget for restore results, e.g. "Overview Map".
+ * @param mapWidgetId The ID of the map widget.
+ * @returns The widget label, or the ID if the widget is not in the app.
+ */
+export const getMapLabel = (mapWidgetId: string): string =>
+  getAppStore().getState().appConfig?.widgets?.[mapWidgetId]?.label || mapWidgetId
+
+/**
+ * Builds the payload that restores one map state with the single-map functions.
+ * @param payload The session payload.
+ * @param target The map state to restore.
+ * @returns The payload with the target's state as its map session.
+ */
+const targetPayload = (payload: WorkspacePayload, target: MapRestoreTarget): WorkspacePayload =>
+  target.linkedId ? { ...payload, mapSession: target.state, linkedMaps: undefined } : payload
+
+/**
+ * Marks the results of a linked map with the map's key and names the map in their labels.
+ * @param items The results of restoring the linked map.
+ * @param target The linked map state.
+ * @returns The marked results.
+ */
+const tagLinkedItems = (items: RestoreItemResult[], target: MapRestoreTarget): RestoreItemResult[] => {
+  if (!target.linkedId) return items
+  const prefix = linkedLabelPrefix(target)
+  return items.map(item => ({ ...item, mapWidgetId: target.linkedId, label: prefix + item.label }))
+}
+
+/**
+ * Reverses tagLinkedItems, so the results can be compared with a new attempt on the linked map.
+ * @param items The marked results of a linked map.
+ * @param target The linked map state.
+ * @returns The results as returned for the map on its own.
+ */
+const untagLinkedItems = (items: RestoreItemResult[], target: MapRestoreTarget): RestoreItemResult[] => {
+  if (!target.linkedId) return items
+  const prefix = linkedLabelPrefix(target)
+  return items.map(item => ({
+    ...item,
+    mapWidgetId: undefined,
+    label: item.label.startsWith(prefix) ? item.label.slice(prefix.length) : item.label
+  }))
+}
+
+/**
+ * Gets the text put before the labels of a linked map's results.
+ * @param target The linked map state.
+ * @returns The prefix, e.g. "Overview Map › ".
+ */
+const linkedLabelPrefix = (target: MapRestoreTarget): string =>
+  `${getMapLabel(target.jimuMapView?.mapWidgetId || target.linkedId)} › `
+
+/**
+ * Checks whether a restore result belongs to a map state.
+ * @param item The restore result.
+ * @param target The map state.
+ * @returns True if the item was restored from the target's state.
+ */
+const belongsTo = (item: RestoreItemResult, target: MapRestoreTarget): boolean =>
+  item.mapWidgetId === target.linkedId
+
+/**
+ * Restores every map state of a session onto its matching connected map.
+ * Linked map states with no map to go to are reported as skipped.
+ * @param payload The session payload.
+ * @param jimuMapViews The connected maps, the main map first.
+ * @param options Which parts of the session to apply; the same options are used for every map.
+ * @returns A promise that resolves to the outcome of every part of every map.
+ */
+export const applyMapSessions = async (
+  payload: WorkspacePayload,
+  jimuMapViews: JimuMapView[],
+  options: RestoreOptions = fullRestoreOptions
+): Promise<RestoreResult> => {
+  const items: RestoreItemResult[] = []
+
+  for (const target of resolveMapTargets(payload, jimuMapViews)) {
+    if (!target.jimuMapView) {
+      if (!target.linkedId) throw new Error('Map view is required to load session')
+      items.push({
+        kind: 'map',
+        id: target.linkedId,
+        mapWidgetId: target.linkedId,
+        label: getMapLabel(target.linkedId),
+        status: 'skipped',
+        reason: 'no connected map to restore it onto'
+      })
+      continue
+    }
+    const result = await applyMapSession(targetPayload(payload, target), target.jimuMapView, options)
+    items.push(...tagLinkedItems(result.items, target))
+  }
+
+  return { items }
+}
+
+/**
+ * Tries again to restore the failed parts of every map of a session.
+ * @param payload The session payload.
+ * @param jimuMapViews The connected maps, the main map first.
+ * @param previous The result of the previous attempt.
+ * @param options The options the session was applied with.
+ * @returns A promise that resolves to the previous result, updated with the outcome of the retried items.
+ */
+export const retryFailedMapSessions = async (
+  payload: WorkspacePayload,
+  jimuMapViews: JimuMapView[],
+  previous: RestoreResult,
+  options: RestoreOptions = fullRestoreOptions
+): Promise<RestoreResult> => {
+  const items: RestoreItemResult[] = []
+
+  for (const target of resolveMapTargets(payload, jimuMapViews)) {
+    const own = previous.items.filter(item => belongsTo(item, target))
+    if (!target.jimuMapView || !own.some(item => item.status === 'failed')) {
+      items.push(...own)
+      continue
+    }
+    const result = await retryFailedRestore(targetPayload(payload, target), target.jimuMapView, { items: untagLinkedItems(own, target) }, options)
+    items.push(...tagLinkedItems(result.items, target))
+  }
+
+  return { items }
+}
+
+/**
+ * Takes a snapshot of every connected map before a session is loaded onto them.
+ * @param jimuMapViews The connected maps.
+ * @returns A promise that resolves to the snapshots.
+ */
+export const takeMapSnapshots = async (jimuMapViews: JimuMapView[]): Promise<MapSnapshotSet> => {
+  const set: MapSnapshotSet = []
+  for (const jimuMapView of jimuMapViews.filter(jmv => jmv?.view)) {
+    set.push({ jimuMapView, snapshot: await takeMapSnapshot(jimuMapView) })
+  }
+  return set
+}
+
+/**
+ * Puts every connected map back as it was when the snapshots were taken.
+ * @param set The snapshots to restore.
+ */
+export const restoreMapSnapshots = async (set: MapSnapshotSet): Promise<void> => {
+  for (const { jimuMapView, snapshot } of set) {
+    await restoreMapSnapshot(snapshot, jimuMapView)
+  }
+}
@@ -0,0 +1,129 @@
+import { WorkspacePayload, BasemapLayerInfo, BasemapSnapshot } from './models'
+
+/** Schema version written by this version of the widget. */
+export const CURRENT_SCHEMA_VERSION = 1
+
+/**
+ * A migration upgrades a payload from version `from` to version `from + 1`.
+ * Migrations receive a copy of the payload and may modify it in place.
+ */
+interface PayloadMigration {
+  from: number
+  description: string
+  migrate: (payload: any) => any
+}
+
+/**
+ * Web map layer types (as found in Basemap.toJSON()) mapped to the layer types used in snapshots.
+ */
+const webMapLayerTypes: { [layerType: string]: string } = {
+  ArcGISTiledMapServiceLayer: 'tile',
+  ArcGISTiledImageServiceLayer: 'tile',
+  VectorTileLayer: 'vector-tile',
+  ArcGISMapServiceLayer: 'map-image',
+  WebTiledLayer: 'web-tile'
+}
+
+/**
+ * Converts a basemap layer from web map JSON into snapshot layer info.
+ * @param layer The web map JSON of the basemap layer.
+ * @returns The basemap layer info, or null if the layer has no URL.
+ */
+const basemapLayerFromWebMapJSON = (layer: any): BasemapLayerInfo | null => {
+  const url = layer?.url || layer?.styleUrl || layer?.templateUrl
+  if (!url) return null
+  return {
+    url,
+    type: webMapLayerTypes[layer.layerType] || 'tile',
+    title: layer.title,
+    opacity: layer.opacity ?? 1,
+    visible: layer.visibility ?? true,
+    styleUrl: layer.styleUrl
+  }
+}
+
+/**
+ * Builds a basemap snapshot from the web map JSON of a basemap (the `basemapJSON` field of older payloads).
+ * @param basemapJSON The basemap JSON.
+ * @param basemapId The well-known basemap id saved alongside it, if any.
+ * @returns The equivalent basemap snapshot.
+ */
+const snapshotFromBasemapJSON = (basemapJSON: any, basemapId?: string): BasemapSnapshot => {
+  const layers: any[] = Array.isArray(basemapJSON?.baseMapLayers) ? basemapJSON.baseMapLayers : []
+  const toInfos = (list: any[]) => list.map(basemapLayerFromWebMapJSON).filter(Boolean) as BasemapLayerInfo[]
+
+  return {
+    id: basemapId || basemapJSON?.id || '',
+    portalItemId: basemapJSON?.portalItem?.id,
+    title: basemapJSON?.title || '',
+    baseLayers: toInfos(layers.filter(l => !l.isReference)),
+    referenceLayers: toInfos(layers.filter(l => l.isReference))
+  }
+}
+
+/**
+ * Ordered list of migrations. Add a new entry (and bump CURRENT_SCHEMA_VERSION) whenever the shape
+ * of WorkspacePayload or MapSessionState changes in a way older widgets can't read, e.g. a field is
+ * renamed, removed or means something else. New optional fields don't need one: older widgets ignore
+ * them, and payloads saved without them restore as before.
+ */
+export const payloadMigrations: PayloadMigration[] = [
+  {
+    from: 0,
+    description: 'Unversioned payload: convert basemapJSON to basemapSnapshot and fill in layer defaults',
+    migrate: (payload: any) => {
+      const session = payload.mapSession = payload.mapSession || {}
+
+      if (!session.basemapSnapshot && session.basemapJSON) {
+        session.basemapSnapshot = snapshotFromBasemapJSON(session.basemapJSON, session.basemapId)
+      }
+      delete session.basemapJSON
+
+      const layers: any[] = Array.isArray(session.layers) ? session.layers : []
+      session.layers = layers.map((layer, idx) => ({
+        ...layer,
+        visible: layer.visible ?? true,
+        opacity: layer.opacity ?? 1,
+        order: typeof layer.order === 'number' ? layer.order : idx
+      }))
+
+      payload.data = payload.data || { id: '', label: '' }
+      return payload
+    }
+  }
+]
+
+/**
+ * Upgrades a stored payload to the current schema version, one version at a time.
+ * @param json The payload as stored in the portal or in an exported file.
+ * @returns The payload in the current schema.
+ * @throws An error if the payload comes from a newer, unknown schema version or a migration step is missing.
+ */
+export const migrateWorkspacePayload = (json: any): WorkspacePayload => {
+  if (json === null || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error('Item is not a valid workspace session')
+  }
+
+  let version = typeof json.schemaVersion === 'number' ? json.schemaVersion : 0
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `This session was saved by a newer version of the widget (schema ${version}, ` +
+      `this widget supports up to ${CURRENT_SCHEMA_VERSION}). Please update the widget to open it.`
+    )
+  }
+
+  // Work on a copy so the caller's object is left untouched
+  let payload = JSON.parse(JSON.stringify(json))
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = payloadMigrations.find(m => m.from === version)
+    if (!migration) {
+      throw new Error(`No migration available for session schema ${version}`)
+    }
+    payload = migration.migrate(payload)
+    version += 1
+    payload.schemaVersion = version
+  }
+
+  return payload as WorkspacePayload
+}
\ No newline at end of file
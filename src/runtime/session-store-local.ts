@@ -0,0 +1,203 @@
+import { Workspace, WorkspacePayload, SessionListOptions, SessionListPage, SessionPreferences } from './models'
+import { buildPayload, captureThumbnail } from './workspace-manager'
+import { migrateWorkspacePayload } from './session-migrations'
+import { type SessionStore } from './session-store'
+
+const databaseName = 'exb-sessions'
+const databaseVersion = 1
+const sessionsStore = 'sessions'
+const preferencesStore = 'preferences'
+const preferencesKey = 'default'
+
+/** A session saved in IndexedDB: the list entry and the payload it opens. */
+interface LocalSessionRecord {
+  id: string
+  workspace: Workspace
+  payload: WorkspacePayload
+}
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ * @param request The request to wait for.
+ * @returns A promise that resolves to the request result.
+ */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * Opens the session database, creating its object stores the first time.
+ * @returns A promise that resolves to the open database.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!window.indexedDB) {
+    return Promise.reject(new Error('This browser cannot save sessions locally'))
+  }
+  const request = window.indexedDB.open(databaseName, databaseVersion)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    if (!db.objectStoreNames.contains(sessionsStore)) db.createObjectStore(sessionsStore, { keyPath: 'id' })
+    if (!db.objectStoreNames.contains(preferencesStore)) db.createObjectStore(preferencesStore)
+  }
+  return promisify(request)
+}
+
+/**
+ * Runs a single request against an object store and closes the database afterwards.
+ * @param storeName The object store to use.
+ * @param mode Read-only or read-write access.
+ * @param fn Builds the request from the object store.
+ * @returns A promise that resolves to the request result.
+ */
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase()
+  try {
+    return await promisify(fn(db.transaction(storeName, mode).objectStore(storeName)))
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Reads a saved session record.
+ * @param id The session ID.
+ * @returns A promise that resolves to the record.
+ * @throws An error if no session is saved under the ID.
+ */
+const getRecord = async (id: string): Promise<LocalSessionRecord> => {
+  const record = await withStore<LocalSessionRecord>(sessionsStore, 'readonly', store => store.get(id))
+  if (!record) throw new Error('Session not found in this browser')
+  return record
+}
+
+/**
+ * Saves a session record, replacing any record with the same ID.
+ * @param record The record to save.
+ * @returns A promise that resolves to the record key.
+ */
+const putRecord = (record: LocalSessionRecord): Promise<IDBValidKey> =>
+  withStore(sessionsStore, 'readwrite', store => store.put(record))
+
+/**
+ * Checks whether a session matches the user's search text, in the same fields the portal searches.
+ * @param ws The session to check.
+ * @param query The search text.
+ * @returns True if every word of the query appears in the session's name, snippet or tags.
+ */
+export const matchesQuery = (ws: Workspace, query?: string): boolean => {
+  const words = (query || '').toLowerCase().split(/\s+/).filter(Boolean)
+  const text = [ws.label, ws.snippet, ...(ws.tags || [])].join(' ').toLowerCase()
+  return words.every(word => text.includes(word))
+}
+
+/**
+ * Creates a store that saves sessions in the browser's IndexedDB. Sessions saved this way
+ * don't need a portal sign-in, but only exist in the browser that saved them.
+ * @returns The local session store.
+ */
+export const createLocalSessionStore = (): SessionStore => ({
+  kind: 'local',
+
+  save: async (data, jimuMapView, saved, linkedMapViews) => {
+    if (!jimuMapView?.view && !saved) throw new Error('Map view is required to save session')
+
+    const { payload } = await buildPayload(data, jimuMapView, saved, linkedMapViews)
+    const thumbnail = saved ? null : await captureThumbnail(jimuMapView)
+    const now = Date.now()
+    const workspace: Workspace = {
+      ...data,
+      id: `local-${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      created: now,
+      modified: now,
+      thumbnailUrl: thumbnail?.dataUrl || data.thumbnailUrl
+    }
+    payload.data.id = workspace.id
+
+    await putRecord({ id: workspace.id, workspace, payload })
+    return workspace
+  },
+
+  update: async (data, jimuMapView, linkedMapViews) => {
+    if (!jimuMapView?.view) throw new Error('Map view is required to save session')
+    if (!data.id) throw new Error('Cannot update a session without an ID')
+
+    const existing = await getRecord(data.id)
+    const { payload } = await buildPayload(data, jimuMapView, undefined, linkedMapViews)
+    payload.created = existing.payload.created
+    payload.modified = new Date().toISOString()
+    const thumbnail = await captureThumbnail(jimuMapView)
+    const workspace: Workspace = {
+      ...existing.workspace,
+      ...data,
+      modified: Date.now(),
+      thumbnailUrl: thumbnail?.dataUrl || data.thumbnailUrl
+    }
+
+    await putRecord({ id: data.id, workspace, payload })
+    return workspace
+  },
+
+  updatePayload: async (payload) => {
+    if (!payload.data?.id) throw new Error('Cannot update a session without an ID')
+
+    const existing = await getRecord(payload.data.id)
+    const workspace: Workspace = { ...existing.workspace, modified: Date.now() }
+
+    await putRecord({
+      id: existing.id,
+      workspace,
+      payload: { ...payload, created: existing.payload.created, modified: new Date().toISOString() }
+    })
+    return workspace
+  },
+
+  list: async (options: SessionListOptions = {}): Promise<SessionListPage> => {
+    const { scope = 'mine', query, sortField = 'modified', sortOrder = 'desc', start = 1, num = 50 } = options
+    // Local sessions belong to whoever uses this browser, so nothing is ever shared and there are no templates
+    if (scope !== 'mine') return { items: [], total: 0, nextStart: -1 }
+
+    const records = await withStore<LocalSessionRecord[]>(sessionsStore, 'readonly', store => store.getAll())
+    const direction = sortOrder === 'asc' ? 1 : -1
+    const matches = records
+      .map(record => record.workspace)
+      .filter(ws => matchesQuery(ws, query))
+      .sort((a, b) => direction * (sortField === 'title'
+        ? a.label.localeCompare(b.label)
+        : (a[sortField] || 0) - (b[sortField] || 0)))
+
+    const items = matches.slice(start - 1, start - 1 + num)
+    const next = start + items.length
+    return { items, total: matches.length, nextStart: next <= matches.length ? next : -1 }
+  },
+
+  listByIds: async (ids) => {
+    const records = await withStore<LocalSessionRecord[]>(sessionsStore, 'readonly', store => store.getAll())
+    return ids
+      .map(id => records.find(record => record.id === id)?.workspace)
+      .filter(Boolean)
+  },
+
+  load: async (id) => migrateWorkspacePayload((await getRecord(id)).payload),
+
+  delete: async (id) => {
+    await withStore(sessionsStore, 'readwrite', store => store.delete(id))
+  },
+
+  getPreferences: async () => {
+    const prefs = await withStore<SessionPreferences | undefined>(preferencesStore, 'readonly', store => store.get(preferencesKey))
+    return {
+      favorites: Array.isArray(prefs?.favorites) ? prefs.favorites : [],
+      homeId: prefs?.homeId || undefined
+    }
+  },
+
+  savePreferences: async (prefs) => {
+    await withStore(preferencesStore, 'readwrite', store => store.put(prefs, preferencesKey))
+  }
+})
\ No newline at end of file
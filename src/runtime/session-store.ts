@@ -0,0 +1,86 @@
+import Portal from 'esri/portal/Portal'
+import { JimuMapView } from 'jimu-arcgis'
+import { Workspace, WorkspacePayload, SessionListOptions, SessionListPage, SessionPreferences, SessionStorageKind, PortalItemSettings } from './models'
+import {
+  saveMapSession,
+  updateMapSession,
+  updateMapSessionPayload,
+  listMapSessions,
+  listMapSessionsById,
+  fetchMapSession,
+  deleteMapSession,
+  getSessionPreferences,
+  saveSessionPreferences
+} from './workspace-manager'
+import { defaultPortalItemSettings } from '../config'
+import { createLocalSessionStore } from './session-store-local'
+
+/**
+ * Common interface of the places sessions can be saved to.
+ *
+ * Sharing, version history and session links only exist for portal items, so the widget
+ * checks `kind` before offering them.
+ */
+export interface SessionStore {
+  readonly kind: SessionStorageKind
+  /**
+   * Saves a new session, capturing the current state of the main map and of `linkedMapViews`
+   * unless the map states are given in `saved`.
+   */
+  save: (
+    data: Workspace,
+    jimuMapView: JimuMapView,
+    saved?: Pick<WorkspacePayload, 'mapSession' | 'linkedMaps'>,
+    linkedMapViews?: JimuMapView[]
+  ) => Promise<Workspace>
+  /** Overwrites an existing session with the current state of the main map and of `linkedMapViews`. */
+  update: (data: Workspace, jimuMapView: JimuMapView, linkedMapViews?: JimuMapView[]) => Promise<Workspace>
+  /** Overwrites the existing session named by `payload.data.id` with the given payload rather than the maps. */
+  updatePayload: (payload: WorkspacePayload) => Promise<Workspace>
+  list: (options?: SessionListOptions) => Promise<SessionListPage>
+  /** Lists the sessions with the given IDs in that order, leaving out any that no longer exist or can't be opened. */
+  listByIds: (ids: string[]) => Promise<Workspace[]>
+  /** Fetches the stored payload of a session, upgraded to the current schema. */
+  load: (id: string) => Promise<WorkspacePayload>
+  delete: (id: string) => Promise<void>
+  getPreferences: () => Promise<SessionPreferences>
+  savePreferences: (preferences: SessionPreferences) => Promise<void>
+}
+
+/**
+ * Creates a store that saves sessions as items in the portal.
+ * @param getPortal Returns the portal instance, created on first use.
+ * @param itemSettings Tags and item type of session items.
+ * @returns The portal session store.
+ */
+export const createPortalSessionStore = (
+  getPortal: () => Portal,
+  itemSettings: PortalItemSettings = defaultPortalItemSettings
+): SessionStore => ({
+  kind: 'portal',
+  save: (data, jimuMapView, saved, linkedMapViews) =>
+    saveMapSession(getPortal(), data, jimuMapView, itemSettings, saved, linkedMapViews),
+  update: (data, jimuMapView, linkedMapViews) =>
+    updateMapSession(getPortal(), data, jimuMapView, itemSettings, linkedMapViews),
+  updatePayload: (payload) => updateMapSessionPayload(getPortal(), payload),
+  list: (options) => listMapSessions(getPortal(), itemSettings, options),
+  listByIds: async (ids) => (await listMapSessionsById(getPortal(), ids, itemSettings)).items,
+  load: (id) => fetchMapSession(getPortal(), id),
+  delete: (id) => deleteMapSession(getPortal(), id),
+  getPreferences: () => getSessionPreferences(getPortal()),
+  savePreferences: (preferences) => saveSessionPreferences(getPortal(), preferences)
+})
+
+/**
+ * Creates the session store chosen in the widget settings.
+ * @param kind Where sessions are saved; defaults to the portal.
+ * @param getPortal Returns the portal instance, used by the portal store.
+ * @param itemSettings Tags and item type of session items, used by the portal store.
+ * @returns The session store.
+ */
+export const createSessionStore = (
+  kind: SessionStorageKind = 'portal',
+  getPortal: () => Portal,
+  itemSettings?: PortalItemSettings
+): SessionStore =>
+  kind === 'local' ? createLocalSessionStore() : createPortalSessionStore(getPortal, itemSettings)
\ No newline at end of file
@@ -0,0 +1,140 @@
+import { WorkspacePayload, MapSessionState, LinkedMapStates, LayerConfig, BasemapLayerInfo } from './models'
+import { type UrlRemapping } from '../config'
+
+/**
+ * Removes trailing slashes so that "…/rest/services" and "…/rest/services/" match.
+ * @param url The URL to normalize.
+ * @returns The URL without trailing slashes.
+ */
+const trimSlashes = (url: string): string => url.replace(/\/+$/, '')
+
+/**
+ * Checks whether a URL lies under a service root, i.e. starts with it followed by a path or query (or nothing).
+ * Roots are compared case-insensitively, as ArcGIS Server URLs are.
+ * @param url The URL to check.
+ * @param root The service root, with or without a trailing slash.
+ * @returns The part of the URL after the root, or null if the URL is not under the root.
+ */
+const pathUnderRoot = (url: string, root: string): string | null => {
+  const trimmed = trimSlashes(root.trim())
+  const rest = url.slice(trimmed.length)
+  return url.toLowerCase().startsWith(trimmed.toLowerCase()) && (rest === '' || rest.startsWith('/') || rest.startsWith('?'))
+    ? rest
+    : null
+}
+
+/**
+ * Rewrites a URL using the first remapping whose old root it starts with.
+ * @param url The URL to rewrite.
+ * @param remappings The old and new service roots.
+ * @returns The rewritten URL, or the URL unchanged if no remapping applies.
+ */
+export const remapUrl = (url: string, remappings: UrlRemapping[]): string => {
+  for (const { from, to } of remappings) {
+    if (!from?.trim() || !to?.trim()) continue
+    const rest = pathUnderRoot(url, from)
+    if (rest !== null) {
+      return trimSlashes(to.trim()) + rest
+    }
+  }
+  return url
+}
+
+/**
+ * Checks a layer URL against the app author's list of approved service URLs.
+ * @param url The layer URL; layers without one (e.g. portal items only) are not on any list.
+ * @param allowed The approved URLs or service roots. An empty list allows any URL.
+ * @returns True if layers may be added from the URL.
+ */
+export const isUrlAllowed = (url: string | undefined, allowed: string[] = []): boolean => {
+  const roots = allowed.filter(root => root?.trim())
+  if (roots.length === 0) return true
+  return !!url && roots.some(root => pathUnderRoot(url, root) !== null)
+}
+
+/**
+ * Applies a function to every layer config in a layer tree, returning a new tree.
+ * @param layers The layer configs.
+ * @param fn Returns the updated config for a layer; its sublayers are updated afterwards.
+ * @param path The ID path of the parent layer, used to build the `path` passed to `fn`.
+ * @returns The updated layer configs.
+ */
+const mapLayerTree = (
+  layers: LayerConfig[],
+  fn: (cfg: LayerConfig, path: string) => LayerConfig,
+  path = ''
+): LayerConfig[] => layers.map(layer => {
+  const id = path ? `${path}/${layer.id}` : layer.id
+  const updated = fn(layer, id)
+  return updated.sublayers ? { ...updated, sublayers: mapLayerTree(updated.sublayers, fn, id) } : updated
+})
+
+/**
+ * Applies a function to the main map state and every linked map state of a session, returning a new payload.
+ * @param payload The session payload.
+ * @param fn Returns the updated state of a map, given its linked map key (unset for the main map).
+ * @returns A copy of the payload with the map states updated.
+ */
+const mapSessionStates = (
+  payload: WorkspacePayload,
+  fn: (state: MapSessionState, linkedId?: string) => MapSessionState
+): WorkspacePayload => {
+  if (!payload.linkedMaps) return { ...payload, mapSession: fn(payload.mapSession) }
+  const linkedMaps: LinkedMapStates = {}
+  Object.keys(payload.linkedMaps).forEach(linkedId => {
+    linkedMaps[linkedId] = fn(payload.linkedMaps[linkedId], linkedId)
+  })
+  return { ...payload, mapSession: fn(payload.mapSession), linkedMaps }
+}
+
+/**
+ * Rewrites the service URLs of a session's layers, basemap layers and elevation layers, e.g. after a server migration.
+ * @param payload The session payload.
+ * @param remappings The old and new service roots, as configured in the widget settings.
+ * @returns A copy of the payload with the URLs rewritten, in every map of the session.
+ */
+export const remapSessionUrls = (payload: WorkspacePayload, remappings: UrlRemapping[] = []): WorkspacePayload => {
+  if (remappings.length === 0) return payload
+  const remapInfo = (info: BasemapLayerInfo): BasemapLayerInfo => ({
+    ...info,
+    url: remapUrl(info.url, remappings),
+    styleUrl: info.styleUrl ? remapUrl(info.styleUrl, remappings) : info.styleUrl
+  })
+
+  return mapSessionStates(payload, mapSession => {
+    const snapshot = mapSession.basemapSnapshot
+    const ground = mapSession.ground
+    return {
+      ...mapSession,
+      basemapSnapshot: snapshot
+        ? { ...snapshot, baseLayers: snapshot.baseLayers.map(remapInfo), referenceLayers: snapshot.referenceLayers.map(remapInfo) }
+        : snapshot,
+      ground: ground
+        ? { ...ground, layers: ground.layers.map(info => info.url ? { ...info, url: remapUrl(info.url, remappings) } : info) }
+        : ground,
+      layers: mapLayerTree(mapSession.layers || [], cfg => cfg.url ? { ...cfg, url: remapUrl(cfg.url, remappings) } : cfg)
+    }
+  })
+}
+
+/**
+ * Points one layer of a session at a different URL, e.g. a service that was moved.
+ * The layer's portal item is dropped, so the layer is recreated from the new URL.
+ * @param payload The session payload.
+ * @param layerPath The ID path of the layer ("group/child" for nested layers), as used in restore results.
+ * @param url The new URL.
+ * @param mapWidgetId The linked map the layer belongs to, as in restore results; unset for the main map.
+ * @returns A copy of the payload with the layer's URL replaced.
+ */
+export const repointLayerUrl = (
+  payload: WorkspacePayload,
+  layerPath: string,
+  url: string,
+  mapWidgetId?: string
+): WorkspacePayload => mapSessionStates(payload, (mapSession, linkedId) => linkedId !== mapWidgetId
+  ? mapSession
+  : {
+      ...mapSession,
+      layers: mapLayerTree(mapSession.layers || [], (cfg, path) =>
+        path === layerPath ? { ...cfg, url, portalItemId: undefined, layerId: undefined } : cfg)
+    })
@@ -2,35 +2,124 @@
 import { React, jsx, type AllWidgetProps, getAppStore } from 'jimu-core'
 import { JimuMapViewComponent, type JimuMapView } from 'jimu-arcgis'
 import Portal from 'esri/portal/Portal'
-import { type IMConfig } from '../config'
-import { type Workspace } from './models'
+import type Basemap from 'esri/Basemap'
+import { type IMConfig, defaultPortalItemSettings } from '../config'
+import { type Workspace, type SessionSharing, type PortalGroupInfo, type SessionScope, type SessionPreferences, type SessionSortField, type SessionVersion, type SessionDiff, type WorkspacePayload, type RestoreOptions, type RestoreResult, type RestoreItemResult, type PortalItemSettings } from './models'
 import {
-  saveMapSession,
-  updateMapSession,
-  listMapSessions,
-  loadMapSession,
-  deleteMapSession
+  listUserGroups,
+  getMapSessionSharing,
+  shareMapSession,
+  unshareMapSession,
+  saveMapSessionVersion,
+  listSessionVersions,
+  fetchSessionVersion,
+  restoreSessionVersion,
+  deleteSessionVersions,
+  pruneSessionVersions,
+  captureMapSession,
+  captureLinkedMaps,
+  fullRestoreOptions,
+  listMapSessionsById
 } from './workspace-manager'
+import { createSessionStore } from './session-store'
+import { matchesQuery } from './session-store-local'
+import { remapSessionUrls, repointLayerUrl } from './session-urls'
+import { applyMapSessions, retryFailedMapSessions, takeMapSnapshots, restoreMapSnapshots, type MapSnapshotSet } from './session-maps'
+import { diffSessionPayloads } from './session-diff'
+import { readSessionFile, exportSessionFile } from './session-io'
+import { buildSessionLink, getLinkedSessionId, copyToClipboard, buildStateLink, getLinkedSessionState } from './session-links'
+import { getAutosaveKey, readAutosave, clearAutosave, autosaveToPayload, startAutosave, type AutosaveRecord } from './session-autosave'
 import { WorkspaceList } from './components/workspace-list'
+import { WorkspaceListFilter } from './components/workspace-list-filter'
 import { WorkspaceItemEditor, type SaveMode } from './components/workspace-item-editor'
+import { WorkspaceShareDialog } from './components/workspace-share-dialog'
+import { WorkspaceHistoryDialog } from './components/workspace-history-dialog'
+import { WorkspaceDiffDialog } from './components/workspace-diff-dialog'
+import { WorkspaceImportDialog } from './components/workspace-import-dialog'
+import { WorkspaceRestoreDialog } from './components/workspace-restore-dialog'
+import { WorkspacePreviewDialog } from './components/workspace-preview-dialog'
+import { WorkspaceRestoreSummary } from './components/workspace-restore-summary'
+import { WorkspaceRepointDialog } from './components/workspace-repoint-dialog'
 import './assets/style.scss'
 
-const { useState, useRef, useCallback, useEffect } = React
+const { useState, useRef, useCallback, useEffect, useMemo } = React
+
+/** Number of previous map states kept for "Undo Load". */
+const undoStackSize = 5
+
+/** How long the first session load waits for the other connected maps before going ahead without them, in milliseconds. */
+const linkedViewsTimeout = 10000
 
 export default function Widget (props: AllWidgetProps<IMConfig>) {
   const { useMapWidgetIds } = props
 
   // State variables
   const [jimuMapView, setJimuMapView] = useState<JimuMapView | null>(null)
+  /** Views of the other connected maps (e.g. an overview map), keyed by map widget ID. */
+  const [linkedViews, setLinkedViews] = useState<{ [mapWidgetId: string]: JimuMapView }>({})
+  /** Set once the first session load stops waiting for connected maps that haven't appeared. */
+  const [linkedViewsTimedOut, setLinkedViewsTimedOut] = useState(false)
   const [workspaces, setWorkspaces] = useState<Workspace[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [scope, setScope] = useState<SessionScope>('mine')
+  const [username, setUsername] = useState<string | undefined>(undefined)
+  const [preferences, setPreferences] = useState<SessionPreferences>({ favorites: [] })
+  /** The user's favourite sessions, fetched by ID so they are pinned even when not on a loaded page. */
+  const [favoriteWorkspaces, setFavoriteWorkspaces] = useState<Workspace[]>([])
+
+  // List filter and paging state
+  const [query, setQuery] = useState('')
+  const [sortField, setSortField] = useState<SessionSortField>('modified')
+  const [nextStart, setNextStart] = useState(-1)
+  const [total, setTotal] = useState(0)
 
   // Editor state: null = closed, Workspace object = open with that data
   const [editorData, setEditorData] = useState<Workspace | null>(null)
   const [confirmDelete, setConfirmDelete] = useState<Workspace | null>(null)
+  const [shareTarget, setShareTarget] = useState<{
+    workspace: Workspace
+    groups: PortalGroupInfo[]
+    sharing: SessionSharing
+  } | null>(null)
+  const [historyTarget, setHistoryTarget] = useState<{
+    workspace: Workspace
+    versions: SessionVersion[]
+  } | null>(null)
+  const [diffView, setDiffView] = useState<{
+    title: string
+    fromLabel: string
+    toLabel: string
+    diff: SessionDiff
+    /** Workspace to overwrite if the user confirms from the diff dialog. */
+    overwrite?: Workspace
+  } | null>(null)
+  const [previewData, setPreviewData] = useState<{
+    workspace: Workspace
+    payload: WorkspacePayload
+    insetBasemap?: Basemap
+    /** Set when previewing a saved version, which is shown read-only. */
+    version?: SessionVersion
+  } | null>(null)
+  const [restoreTarget, setRestoreTarget] = useState<Workspace | null>(null)
+  const [restoreOptions, setRestoreOptions] = useState<RestoreOptions>(fullRestoreOptions)
+  const [undoStack, setUndoStack] = useState<MapSnapshotSet[]>([])
+  const [importData, setImportData] = useState<{ payload: WorkspacePayload; fileName: string } | null>(null)
+  const [recovery, setRecovery] = useState<AutosaveRecord | null>(null)
+  const [repointTarget, setRepointTarget] = useState<RestoreItemResult | null>(null)
+  const [restoreReport, setRestoreReport] = useState<{
+    payload: WorkspacePayload
+    options: RestoreOptions
+    result: RestoreResult
+  } | null>(null)
 
   const portalRef = useRef<Portal | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const initialLoadRef = useRef(false)
+  const recoveryCheckedRef = useRef(false)
+  /** Set once the user's preferences have been fetched, so favourites and home are never saved over unseen ones. */
+  const preferencesLoadedRef = useRef(false)
 
   /**
    * Utility to get or create the Portal instance. 
@@ -44,6 +133,48 @@ export default function Widget (props: AllWidgetProps<IMConfig>) {
     return portalRef.current
   }, [])
 
+  /** Tags and item type of session items, as configured by the app author. */
+  const itemSettings = useMemo<PortalItemSettings>(() => ({
+    tags: props.config.portalTags?.trim() || defaultPortalItemSettings.tags,
+    itemType: props.config.portalItemType?.trim() || defaultPortalItemSettings.itemType
+  }), [props.config.portalTags, props.config.portalItemType])
+
+  /**
+   * Where sessions are saved, as chosen in the widget settings.
+   * Sharing, version history and session links are only available for portal sessions.
+   */
+  const store = useMemo(
+    () => createSessionStore(props.config.storage, getPortal, itemSettings),
+    [props.config.storage, getPortal, itemSettings]
+  )
+  const isPortalStore = store.kind === 'portal'
+
+  /** Template sessions offered to every user; they are portal items, so only shown with the portal store. */
+  const templateIds = useMemo(
+    () => isPortalStore ? props.config.templateSessionIds?.asMutable() || [] : [],
+    [isPortalStore, props.config.templateSessionIds]
+  )
+  const hasTemplates = templateIds.length > 0
+  /** The scope the list actually shows; local sessions, and apps without templates, only have the user's own sessions. */
+  const listScope: SessionScope = !isPortalStore || (scope === 'templates' && !hasTemplates) ? 'mine' : scope
+
+  /** Views of the other connected maps, in the order of the widget settings; saved and restored with the main map. */
+  const linkedMapViews = useMemo(
+    () => (useMapWidgetIds || []).slice(1).map(id => linkedViews[id]).filter(Boolean),
+    [useMapWidgetIds, linkedViews]
+  )
+
+  /**
+   * Update one session wherever it is listed (the loaded pages and the fetched favourites), e.g. after
+   * it was edited, rather than fetching the list again.
+   * @param id ID of the session
+   * @param patch Returns the updated session
+   */
+  const patchWorkspace = useCallback((id: string, patch: (ws: Workspace) => Workspace) => {
+    setWorkspaces(prev => prev.map(w => w.id === id ? patch(w) : w))
+    setFavoriteWorkspaces(prev => prev.map(w => w.id === id ? patch(w) : w))
+  }, [])
+
   /**
    * Utility to run an async function with loading and error handling. 
    * @param fn Async function to run
@@ -63,34 +194,156 @@ export default function Widget (props: AllWidgetProps<IMConfig>) {
     }
   }, [])
 
+  /**
+   * Snapshot the maps before running a function that restores a session onto them,
+   * so the load can be undone. Only the most recent snapshots are kept.
+   * @param jmvs The map views the session is restored onto
+   * @param apply Function that changes the maps
+   * @returns Result of the function
+   */
+  const applyWithUndo = useCallback(async <T,>(jmvs: JimuMapView[], apply: () => Promise<T>): Promise<T> => {
+    const snapshots = await takeMapSnapshots(jmvs)
+    setUndoStack(prev => [...prev, snapshots].slice(-undoStackSize))
+    return await apply()
+  }, [])
 
   /**
-   * Generate a timestamp string for versioning saved sessions. Format: "dd-MM-yyyy HH:mm".
-   * @returns Formatted timestamp string
+   * Apply a session to the maps so that the load can be undone, and show a summary of
+   * what was restored, recreated, skipped or failed. Each map state of the session goes to its
+   * matching connected map (see resolveMapTargets).
+   * @param jmv The main map view the session is restored onto
+   * @param payload The session to apply
+   * @param selected Which parts of the session to apply; by default everything
    */
-  const getTimestamp = () => new Date().toLocaleString('en-NZ', {
-        year: 'numeric', month: '2-digit', day: '2-digit',
-        hour: '2-digit', minute: '2-digit',
-        hour12: false
-      }).replace(/[/]/g, '-')
+  const applySession = useCallback(async (jmv: JimuMapView, saved: WorkspacePayload, selected: RestoreOptions = fullRestoreOptions) => {
+    // Saved service URLs may point at servers that have since moved
+    const payload = remapSessionUrls(saved, props.config.urlRemappings?.asMutable({ deep: true }))
+    // Missing layers are only recreated from services the app author approved
+    const options = { ...selected, allowedLayerUrls: props.config.allowedLayerUrls?.asMutable() || [] }
+    const jmvs = [jmv, ...linkedMapViews]
+    const result = await applyWithUndo(jmvs, () => applyMapSessions(payload, jmvs, options))
+    setRestoreReport({ payload, options, result })
+  }, [applyWithUndo, linkedMapViews, props.config.urlRemappings, props.config.allowedLayerUrls])
 
   /**
-   * Fetch the list of saved sessions from the portal and update state.
-   * @returns Promise that resolves when the list is refreshed
+   * Try again to restore the parts of the last session load that failed.
    */
-  const refreshList = useCallback(async () => {
-    const list = await run(() => listMapSessions(getPortal()))
-    if (list) {
-      setWorkspaces(list)
+  const handleRetryFailed = useCallback(async () => {
+    if (!jimuMapView || !restoreReport) return
+    const jmvs = [jimuMapView, ...linkedMapViews]
+    const result = await run(() => retryFailedMapSessions(restoreReport.payload, jmvs, restoreReport.result, restoreReport.options))
+    if (result) setRestoreReport({ ...restoreReport, result })
+  }, [jimuMapView, linkedMapViews, restoreReport, run])
+
+  /**
+   * Point a layer that could not be restored at a new URL, restore it from there and
+   * optionally save the session again so the fix sticks. The session is only saved once the layer
+   * has actually been restored from the new URL.
+   * @param item The failed layer
+   * @param url The new URL
+   * @param save Whether to overwrite the saved session with the repaired session
+   */
+  const handleRepoint = useCallback(async (item: RestoreItemResult, url: string, save: boolean) => {
+    if (!jimuMapView || !restoreReport) return
+    const payload = repointLayerUrl(restoreReport.payload, item.id, url, item.mapWidgetId)
+    const outcome = await run(async () => {
+      const result = await retryFailedMapSessions(payload, [jimuMapView, ...linkedMapViews], restoreReport.result, restoreReport.options)
+      const repointed = result.items.find(i => i.kind === 'layer' && i.id === item.id && i.mapWidgetId === item.mapWidgetId)
+      const loaded = repointed?.status === 'restored' || repointed?.status === 'recreated'
+      const saved = save && loaded
+        ? await store.updatePayload(payload)
+        : undefined
+      return { result, repointed, loaded, saved }
+    })
+    if (outcome) {
+      setRepointTarget(null)
+      setRestoreReport({ ...restoreReport, payload, result: outcome.result })
+      if (outcome.saved) {
+        patchWorkspace(outcome.saved.id, w => ({ ...w, ...outcome.saved }))
+        setNotice(`"${outcome.saved.label}" saved with the new layer URL`)
+      } else if (save && !outcome.loaded) {
+        const reason = outcome.repointed?.reason ? ` (${outcome.repointed.reason})` : ''
+        setNotice(`The session was not saved: the layer could not be loaded from the new URL${reason}`)
+      }
     }
-  }, [getPortal, run])
+  }, [jimuMapView, linkedMapViews, restoreReport, store, run, patchWorkspace])
+
+  /**
+   * Put the maps back as they were before the most recent session load.
+   */
+  const handleUndoLoad = useCallback(async () => {
+    if (!jimuMapView || undoStack.length === 0) return
+    const snapshots = undoStack[undoStack.length - 1]
+    const done = await run(async () => {
+      await restoreMapSnapshots(snapshots)
+      return true
+    })
+    if (done) {
+      setUndoStack(prev => prev.slice(0, -1))
+      setRestoreReport(null)
+    }
+  }, [jimuMapView, undoStack, run])
+
+  /**
+   * Fetch the user's preferences (favourites and home session).
+   * @returns Promise that resolves to the preferences
+   */
+  const loadPreferences = useCallback(async () => {
+    const prefs = await store.getPreferences()
+    preferencesLoadedRef.current = true
+    setPreferences(prefs)
+    return prefs
+  }, [store])
+
+  /**
+   * Fetch a page of saved sessions using the current scope, search text and sort.
+   * The user's preferences are fetched with the first list, if the initial load hasn't fetched them.
+   * @param start Index of the first result to fetch; 1 replaces the list, later pages are appended
+   * @returns Promise that resolves when the list is updated
+   */
+  const fetchPage = useCallback(async (start: number) => {
+    // Templates are a fixed set of items, listed in the order the app author chose
+    const page = await run(async () => {
+      const result = listScope === 'templates'
+        ? await listMapSessionsById(getPortal(), templateIds, itemSettings)
+        : await store.list({
+          scope: listScope,
+          query,
+          sortField,
+          sortOrder: sortField === 'title' ? 'asc' : 'desc',
+          start
+        })
+      if (!preferencesLoadedRef.current) await loadPreferences()
+      return result
+    })
+    if (page) {
+      setUsername(isPortalStore ? getPortal().user?.username : undefined)
+      setWorkspaces(prev => start === 1 ? page.items : [...prev, ...page.items])
+      setNextStart(page.nextStart)
+      setTotal(page.total)
+    }
+  }, [store, isPortalStore, listScope, templateIds, itemSettings, getPortal, run, query, sortField, loadPreferences])
+
+  /**
+   * Fetch the first page of saved sessions from the portal and update state.
+   * @returns Promise that resolves when the list is refreshed
+   */
+  const refreshList = useCallback(() => fetchPage(1), [fetchPage])
+
+  /**
+   * Fetch the next page of sessions and append it to the list.
+   */
+  const loadMore = useCallback(() => {
+    if (nextStart > 0) fetchPage(nextStart)
+  }, [fetchPage, nextStart])
 
   /**
    * Handle saving a session from the editor. Depending on the mode, this may create a new session or update an existing one.
    * @param ws Workspace data from the editor
-   * @param mode Save mode ('save' to overwrite, 'save-version' to save a copy)
+   * @param mode Save mode ('save' to overwrite, 'save-version' to overwrite with a comment on the recorded version)
+   * @param comment Optional comment for the version
    */
-  const handleEditorSave = useCallback(async (ws: Workspace, mode: SaveMode) => {
+  const handleEditorSave = useCallback(async (ws: Workspace, mode: SaveMode, comment?: string) => {
     if (!jimuMapView) {
       setError('No map view available – please connect a Map widget')
       return
@@ -100,36 +353,159 @@ export default function Widget (props: AllWidgetProps<IMConfig>) {
     let saved: Workspace | undefined
 
     if (isExisting && mode === 'save') {
-      // Overwrite the existing portal item
-      saved = await run(() => updateMapSession(getPortal(), ws, jimuMapView))
+      // Overwrite the existing session; portal sessions keep the state being overwritten in their version history
+      saved = await run(() => isPortalStore
+        ? saveMapSessionVersion(getPortal(), ws, jimuMapView, undefined, itemSettings, linkedMapViews)
+        : store.update(ws, jimuMapView, linkedMapViews))
 
     } else if (isExisting && mode === 'save-version') {
-      // Create a new item with a timestamped name
-      const versionedWs: Workspace = {
-        ...ws,
-        id: '',  // force new item
-        label: `${ws.label} (${getTimestamp()})`
-      }
-      saved = await run(() => saveMapSession(getPortal(), versionedWs, jimuMapView))
+      // Overwrite the existing portal item, keeping the state being overwritten as a version with the user's comment
+      saved = await run(() => saveMapSessionVersion(getPortal(), ws, jimuMapView, comment, itemSettings, linkedMapViews))
     } else {
       // Brand new session
-      saved = await run(() => saveMapSession(getPortal(), ws, jimuMapView))
+      saved = await run(() => store.save(ws, jimuMapView, undefined, linkedMapViews))
     }
 
     if (saved) {
       setEditorData(null)
-      setWorkspaces(prev => {
-        const exists = prev.some(w => w.id === saved.id)
-        if (exists) {
-          return prev.map(w => w.id === saved.id ? saved : w)
-        }
-        return [saved, ...prev]
+      if (isExisting) {
+        patchWorkspace(saved.id, () => saved)
+      } else if (scope === 'mine') {
+        // New sessions belong to the user, so only show them in the user's own list
+        setWorkspaces(prev => [saved, ...prev])
+        setTotal(prev => prev + 1)
+      }
+    }
+  }, [jimuMapView, linkedMapViews, store, isPortalStore, itemSettings, getPortal, run, scope, patchWorkspace])
+
+  /**
+   * Compare the current map with the saved state of a session, offering to overwrite it.
+   * @param ws Workspace (with any edits from the editor) to compare against
+   */
+  const handleCompareWithSaved = useCallback(async (ws: Workspace) => {
+    if (!jimuMapView) {
+      setError('No map view available – please connect a Map widget')
+      return
+    }
+    const diff = await run(async () => {
+      const saved = await store.load(ws.id)
+      const current = {
+        mapSession: await captureMapSession(jimuMapView),
+        linkedMaps: await captureLinkedMaps(linkedMapViews)
+      }
+      return diffSessionPayloads(saved, current)
+    })
+    if (diff) {
+      setDiffView({
+        title: `Compare – ${ws.label}`,
+        fromLabel: 'Saved session',
+        toLabel: 'Current map',
+        diff,
+        overwrite: ws
       })
     }
-  }, [jimuMapView, getPortal, run])
+  }, [jimuMapView, linkedMapViews, store, run])
 
   /**
-   * Handle opening a session when the user clicks the open button.
+   * Compare a version from the history with the current saved state of the session.
+   * @param version Version to compare
+   */
+  const handleVersionCompare = useCallback(async (version: SessionVersion) => {
+    if (!historyTarget) return
+    const ws = historyTarget.workspace
+    const diff = await run(async () => {
+      const portal = getPortal()
+      const [versionPayload, saved] = await Promise.all([
+        fetchSessionVersion(portal, ws.id, version.id),
+        store.load(ws.id)
+      ])
+      return diffSessionPayloads(versionPayload, saved)
+    })
+    if (diff) {
+      setDiffView({
+        title: `Compare – ${ws.label}`,
+        fromLabel: `Version of ${new Date(version.created).toLocaleString('en-NZ', { hour12: false })}`,
+        toLabel: 'Saved session',
+        diff
+      })
+    }
+  }, [historyTarget, store, getPortal, run])
+
+  /**
+   * Open the version history of a session, closing the editor.
+   * @param ws Workspace whose history to show
+   */
+  const handleShowHistory = useCallback(async (ws: Workspace) => {
+    const versions = await run(() => listSessionVersions(getPortal(), ws.id))
+    if (versions) {
+      setEditorData(null)
+      setHistoryTarget({ workspace: ws, versions })
+    }
+  }, [getPortal, run])
+
+  /**
+   * Show what a version contains in the read-only preview dialog, leaving the map and the saved session unchanged.
+   * @param version Version to preview
+   */
+  const handleVersionPreview = useCallback(async (version: SessionVersion) => {
+    if (!historyTarget) return
+    const ws = historyTarget.workspace
+    const payload = await run(() => fetchSessionVersion(getPortal(), ws.id, version.id))
+    if (payload) {
+      setPreviewData({
+        workspace: { ...ws, label: `${ws.label} (version of ${new Date(version.created).toLocaleString('en-NZ', { hour12: false })})` },
+        payload,
+        insetBasemap: jimuMapView?.view.map.basemap?.clone(),
+        version
+      })
+    }
+  }, [historyTarget, jimuMapView, getPortal, run])
+
+  /**
+   * Make a version the current state of the saved session and load it onto the map.
+   * @param version Version to restore
+   */
+  const handleVersionRestore = useCallback(async (version: SessionVersion) => {
+    if (!historyTarget) return
+    const ws = historyTarget.workspace
+    const restored = await run(async () => {
+      const payload = await restoreSessionVersion(getPortal(), ws.id, version.id)
+      if (jimuMapView) await applySession(jimuMapView, payload)
+      return payload
+    })
+    if (restored) {
+      setHistoryTarget(null)
+      patchWorkspace(ws.id, w => ({ ...w, label: restored.data.label, modified: Date.now() }))
+    }
+  }, [historyTarget, jimuMapView, getPortal, run, applySession, patchWorkspace])
+
+  /**
+   * Delete a single version from the session's history.
+   * @param version Version to delete
+   */
+  const handleVersionDelete = useCallback(async (version: SessionVersion) => {
+    if (!historyTarget) return
+    const versions = await run(() => deleteSessionVersions(getPortal(), historyTarget.workspace.id, [version.id]))
+    if (versions) {
+      setHistoryTarget({ ...historyTarget, versions })
+    }
+  }, [historyTarget, getPortal, run])
+
+  /**
+   * Delete all but the newest versions from the session's history.
+   * @param keep Number of versions to keep
+   */
+  const handleVersionPrune = useCallback(async (keep: number) => {
+    if (!historyTarget) return
+    const versions = await run(() => pruneSessionVersions(getPortal(), historyTarget.workspace.id, keep))
+    if (versions) {
+      setHistoryTarget({ ...historyTarget, versions })
+    }
+  }, [historyTarget, getPortal, run])
+
+  /**
+   * Handle opening a session when the user clicks a row: fetch its payload and show
+   * a preview, leaving the map unchanged until the user applies it.
    * @param ws Workspace to open
    */
   const handleWorkspaceOpen = useCallback(async (ws: Workspace) => {
@@ -137,8 +513,54 @@ export default function Widget (props: AllWidgetProps<IMConfig>) {
       setError('No map view available – please connect a Map widget')
       return
     }
-    await run(() => loadMapSession(getPortal(), ws.id, jimuMapView))
-  }, [jimuMapView, getPortal, run])
+    const payload = await run(() => store.load(ws.id))
+    if (payload) {
+      setPreviewData({
+        workspace: ws,
+        payload,
+        insetBasemap: jimuMapView.view.map.basemap?.clone()
+      })
+    }
+  }, [jimuMapView, store, run])
+
+  /**
+   * Apply a previewed session to the map in full.
+   * @param ws Workspace being previewed
+   * @param payload Payload fetched for the preview
+   */
+  const handlePreviewApply = useCallback(async (ws: Workspace, payload: WorkspacePayload) => {
+    setPreviewData(null)
+    await run(() => applySession(jimuMapView, payload))
+  }, [jimuMapView, run, applySession])
+
+  /**
+   * Switch from the preview to the selective restore dialog.
+   * @param ws Workspace being previewed
+   */
+  const handlePreviewApplyPartially = useCallback((ws: Workspace) => {
+    setPreviewData(null)
+    setRestoreTarget(ws)
+  }, [])
+
+  /**
+   * Open a session with only the parts chosen in the restore dialog.
+   * The chosen options are remembered as the starting point for the next selective open.
+   * @param ws Workspace to open
+   * @param options Parts of the session to apply
+   */
+  const handleSelectiveOpen = useCallback(async (ws: Workspace, options: RestoreOptions) => {
+    if (!jimuMapView) {
+      setError('No map view available – please connect a Map widget')
+      return
+    }
+    setRestoreOptions(options)
+    const done = await run(async () => {
+      const payload = await store.load(ws.id)
+      await applySession(jimuMapView, payload, options)
+      return true
+    })
+    if (done) setRestoreTarget(null)
+  }, [jimuMapView, store, run, applySession])
 
   /**
    * Handle editing a session when the user clicks the edit button.
@@ -148,6 +570,64 @@ export default function Widget (props: AllWidgetProps<IMConfig>) {
     setEditorData(ws)
   }, [])
 
+  /**
+   * Download a session's stored payload as a JSON file.
+   * @param ws Workspace to export
+   */
+  const handleWorkspaceExport = useCallback(async (ws: Workspace) => {
+    const payload = await run(() => store.load(ws.id))
+    if (payload) {
+      exportSessionFile(payload)
+    }
+  }, [store, run])
+
+  /**
+   * Read and validate a session file picked by the user, then open the import dialog.
+   * @param ev Change event from the hidden file input
+   */
+  const handleImportFile = useCallback(async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0]
+    ev.target.value = ''  // allow the same file to be picked again
+    if (!file) return
+    const payload = await run(() => readSessionFile(file))
+    if (payload) {
+      setImportData({ payload, fileName: file.name })
+    }
+  }, [run])
+
+  /**
+   * Apply an imported session directly to the map.
+   * @param payload Imported workspace payload
+   */
+  const handleImportApply = useCallback(async (payload: WorkspacePayload) => {
+    if (!jimuMapView) {
+      setError('No map view available – please connect a Map widget')
+      return
+    }
+    const done = await run(async () => {
+      await applySession(jimuMapView, payload)
+      return true
+    })
+    if (done) setImportData(null)
+  }, [jimuMapView, run, applySession])
+
+  /**
+   * Save an imported session as a new session.
+   * @param payload Imported workspace payload
+   * @param label Name for the new session
+   */
+  const handleImportSave = useCallback(async (payload: WorkspacePayload, label: string) => {
+    const ws: Workspace = { ...payload.data, id: '', label }
+    const saved = await run(() => store.save(ws, jimuMapView, payload))
+    if (saved) {
+      setImportData(null)
+      if (scope === 'mine') {
+        setWorkspaces(prev => [saved, ...prev])
+        setTotal(prev => prev + 1)
+      }
+    }
+  }, [jimuMapView, store, run, scope])
+
   /**
    * Handle deleting a session when the user clicks the delete button.
    * @param ws Workspace to delete
@@ -161,36 +641,297 @@ export default function Widget (props: AllWidgetProps<IMConfig>) {
    */
   const confirmDeleteAction = useCallback(async () => {
     if (!confirmDelete) return
-    await run(() => deleteMapSession(getPortal(), confirmDelete.id))
+    await run(() => store.delete(confirmDelete.id))
     setWorkspaces(prev => prev.filter(w => w.id !== confirmDelete.id))
+    setFavoriteWorkspaces(prev => prev.filter(w => w.id !== confirmDelete.id))
+    setTotal(prev => Math.max(prev - 1, 0))
     setConfirmDelete(null)
-  }, [confirmDelete, getPortal, run])
+  }, [confirmDelete, store, run])
 
   /**
-   * Handle changes to the active map view. 
+   * Handle sharing a session when the user clicks the share button.
+   * Fetches the user's groups and the session's current sharing before opening the dialog.
+   * @param ws Workspace to share
+   */
+  const handleWorkspaceShare = useCallback(async (ws: Workspace) => {
+    const portal = getPortal()
+    const result = await run(() => Promise.all([
+      listUserGroups(portal),
+      getMapSessionSharing(portal, ws.id)
+    ]))
+    if (result) {
+      const [groups, sharing] = result
+      setShareTarget({ workspace: ws, groups, sharing })
+    }
+  }, [getPortal, run])
+
+  /**
+   * Apply the sharing chosen in the share dialog, unsharing any groups that were deselected.
+   * @param ws Workspace being shared
+   * @param sharing New sharing level and groups
+   */
+  const handleShareSave = useCallback(async (ws: Workspace, sharing: SessionSharing) => {
+    if (!shareTarget) return
+    const removedGroups = shareTarget.sharing.groups.filter(id => !sharing.groups.includes(id))
+    const portal = getPortal()
+
+    const done = await run(async () => {
+      await shareMapSession(portal, ws.id, sharing)
+      await unshareMapSession(portal, ws.id, removedGroups)
+      return true
+    })
+
+    if (done) {
+      setShareTarget(null)
+      patchWorkspace(ws.id, w => ({ ...w, access: sharing.access }))
+    }
+  }, [shareTarget, getPortal, run, patchWorkspace])
+
+  /**
+   * Persist updated session preferences, reverting the local state if they can't be saved.
+   * @param next The preferences to save
+   */
+  const updatePreferences = useCallback(async (next: SessionPreferences) => {
+    const previous = preferences
+    setPreferences(next)
+    const saved = await run(async () => {
+      await store.savePreferences(next)
+      return true
+    })
+    if (!saved) setPreferences(previous)
+  }, [preferences, store, run])
+
+  /**
+   * Toggle a session as a favourite. Favourites are pinned to the top of the list.
+   * @param ws Workspace to star or unstar
+   */
+  const handleWorkspaceFavorite = useCallback(async (ws: Workspace) => {
+    const favorites = preferences.favorites.includes(ws.id)
+      ? preferences.favorites.filter(id => id !== ws.id)
+      : [...preferences.favorites, ws.id]
+    await updatePreferences({ ...preferences, favorites })
+  }, [preferences, updatePreferences])
+
+  /**
+   * Toggle a session as the home session, which is loaded when the app starts.
+   * @param ws Workspace to set or clear as home
+   */
+  const handleWorkspaceHome = useCallback(async (ws: Workspace) => {
+    const homeId = preferences.homeId === ws.id ? undefined : ws.id
+    await updatePreferences({ ...preferences, homeId })
+  }, [preferences, updatePreferences])
+
+  /**
+   * Fetch the user's favourite sessions by ID whenever the favourites change, so they can be pinned
+   * whichever pages of the list are loaded. Later edits are patched in by patchWorkspace.
+   */
+  useEffect(() => {
+    let cancelled = false
+    if (preferences.favorites.length === 0) {
+      setFavoriteWorkspaces([])
+      return
+    }
+    store.listByIds(preferences.favorites)
+      .then(items => { if (!cancelled) setFavoriteWorkspaces(items) })
+      .catch(e => console.error('Favourite sessions could not be fetched', e))
+    return () => { cancelled = true }
+  }, [store, preferences.favorites])
+
+  /**
+   * Sessions sorted so that favourites are pinned to the top, keeping the portal order otherwise.
+   * Each favourite is taken from the loaded pages if it is there (so sessions the search index hasn't caught
+   * up with yet still show), otherwise from the fetched favourites, limited to those the current scope and
+   * search would list. Favourites shown at the top are not repeated further down.
+   */
+  const sortedWorkspaces = useMemo(() => {
+    const inList = (ws: Workspace): boolean => {
+      if (listScope === 'templates') return templateIds.includes(ws.id)
+      if (!isPortalStore) return true
+      return listScope === 'mine' ? ws.owner === username : ws.owner !== username
+    }
+    const favorites = preferences.favorites
+      .map(id => workspaces.find(ws => ws.id === id) || favoriteWorkspaces.find(ws => ws.id === id))
+      .filter(ws => ws && inList(ws) && matchesQuery(ws, query))
+    const pinned = favorites.map(ws => ws.id)
+    const others = workspaces.filter(ws => !pinned.includes(ws.id))
+    return [...favorites, ...others]
+  }, [workspaces, favoriteWorkspaces, preferences, listScope, templateIds, isPortalStore, username, query])
+
+  /**
+   * Whether the user may save the loaded session again (e.g. after repointing a layer): it must be
+   * one of the listed sessions and, in the portal, owned by the user, so shared sessions and
+   * templates stay read-only.
+   */
+  const canResaveLoaded = useMemo(() => {
+    const id = restoreReport?.payload.data?.id
+    const listed = id ? [...workspaces, ...favoriteWorkspaces].find(ws => ws.id === id) : undefined
+    return !!listed && (!isPortalStore || (!!username && listed.owner === username))
+  }, [restoreReport, workspaces, favoriteWorkspaces, isPortalStore, username])
+
+  /**
+   * Copy a link to the app that opens the given session.
+   * @param ws Workspace to link to
+   */
+  const handleWorkspaceCopyLink = useCallback(async (ws: Workspace) => {
+    const copied = await run(async () => {
+      await copyToClipboard(buildSessionLink(ws.id))
+      return true
+    })
+    if (copied) {
+      setNotice(`Link to "${ws.label}" copied to the clipboard`)
+    }
+  }, [run])
+
+  /**
+   * Copy a link that restores the current map state without saving anything to the portal.
+   * If the state is too large for a link, the user is asked to save it as a session instead.
+   */
+  const handleCopyMapLink = useCallback(async () => {
+    if (!jimuMapView) {
+      setError('No map view available – please connect a Map widget')
+      return
+    }
+    const link = await run(async () => {
+      const result = await buildStateLink(await captureMapSession(jimuMapView))
+      if (result) await copyToClipboard(result.url)
+      return result || false
+    })
+    if (link) {
+      const dropped = link.dropped.length > 0 ? ` (without ${link.dropped.join(' or ')})` : ''
+      setNotice(`Map link copied to the clipboard${dropped}`)
+    } else if (link === false) {
+      setError('This map is too large to share as a link. Save it as a session and use its Copy Link action instead.')
+      setEditorData({ id: '', label: '' })
+    }
+  }, [jimuMapView, run])
+
+  /**
+   * Handle changes to the active map view.
    * @param jmv The active JimuMapView instance
    */
   const onActiveViewChange = useCallback((jmv: JimuMapView) => {
     setJimuMapView(jmv)
   }, [])
 
+  /** Whether the views of all the connected maps are available, so a session can be restored onto every map. */
+  const allMapsReady = !!jimuMapView && linkedMapViews.length >= (useMapWidgetIds?.length || 1) - 1
+
+  // Stop waiting for connected maps that never appear (e.g. a map in a section that isn't shown yet)
+  useEffect(() => {
+    if (!jimuMapView || allMapsReady || linkedViewsTimedOut || initialLoadRef.current) return
+    const timer = setTimeout(() => setLinkedViewsTimedOut(true), linkedViewsTimeout)
+    return () => clearTimeout(timer)
+  }, [jimuMapView, allMapsReady, linkedViewsTimedOut])
+
+  /**
+   * Once the main map and the other connected maps are available (or waiting for them timed out),
+   * the map state carried in the URL (if the app was opened from a map link), the session named
+   * in the URL (if opened from a session link), or otherwise the user's home session is loaded.
+   * Preferences are only fetched here when there is no map link, as fetching them needs a sign-in;
+   * otherwise they are fetched along with the session list.
+   */
+  useEffect(() => {
+    if (!jimuMapView || initialLoadRef.current || !(allMapsReady || linkedViewsTimedOut)) return
+    initialLoadRef.current = true
+    const jmv = jimuMapView
+
+    run(async () => {
+      // A map link carries the state itself, so it can be restored before (or without) signing in
+      const linkedState = await getLinkedSessionState()
+      if (linkedState) {
+        await applySession(jmv, linkedState)
+        return
+      }
+
+      const prefs = await loadPreferences()
+
+      const linkedId = getLinkedSessionId()
+      if (linkedId) {
+        try {
+          const payload = await store.load(linkedId)
+          await applySession(jmv, payload)
+        } catch (e) {
+          console.error(e)
+          throw new Error('The linked session could not be opened. It may have been deleted, or it has not been shared with you.')
+        }
+      } else if (prefs.homeId) {
+        const payload = await store.load(prefs.homeId)
+        await applySession(jmv, payload)
+      }
+    })
+  }, [jimuMapView, allMapsReady, linkedViewsTimedOut, store, run, applySession, loadPreferences])
+
+  /**
+   * Handle changes to the view of one of the other connected maps.
+   * @param mapWidgetId The map widget the view belongs to
+   * @param jmv The active JimuMapView instance, or null when the map is gone
+   */
+  const onLinkedViewChange = useCallback((mapWidgetId: string, jmv: JimuMapView | null) => {
+    setLinkedViews(prev => {
+      const next = { ...prev }
+      if (jmv) next[mapWidgetId] = jmv
+      else delete next[mapWidgetId]
+      return next
+    })
+  }, [])
+
   useEffect(() => {
     if (jimuMapView) {
       refreshList()
     }
   }, [jimuMapView, refreshList])
 
+  /**
+   * Restore the working state autosaved before the app was last closed or crashed.
+   */
+  const handleRecover = useCallback(async () => {
+    if (!jimuMapView || !recovery) return
+    const done = await run(async () => {
+      await applySession(jimuMapView, autosaveToPayload(recovery))
+      return true
+    })
+    if (done) setRecovery(null)
+  }, [jimuMapView, recovery, run, applySession])
+
+  /**
+   * Discard the autosaved working state without restoring it.
+   */
+  const handleDismissRecovery = useCallback(() => {
+    clearAutosave(getAutosaveKey(props.id))
+    setRecovery(null)
+  }, [props.id])
+
+  // Look for an autosaved working state once, before autosave starts overwriting it
+  useEffect(() => {
+    if (!jimuMapView || recoveryCheckedRef.current || !props.config.autosaveEnabled) return
+    recoveryCheckedRef.current = true
+    setRecovery(readAutosave(getAutosaveKey(props.id)))
+  }, [jimuMapView, props.id, props.config.autosaveEnabled])
+
+  // Keep a rolling snapshot of the working state while autosave is enabled
+  useEffect(() => {
+    if (!jimuMapView || !props.config.autosaveEnabled) return
+    return startAutosave(jimuMapView, getAutosaveKey(props.id), props.config.autosaveInterval ?? 5, linkedMapViews)
+  }, [jimuMapView, linkedMapViews, props.id, props.config.autosaveEnabled, props.config.autosaveInterval])
+
 
   return (
     <div className="widget-save-sessions jimu-widget">
 
-      {/* Map view binding */}
+      {/* Map view binding: the first map is the main map, the others are saved and restored with it */}
       {useMapWidgetIds?.length > 0 && (
         <JimuMapViewComponent
           useMapWidgetId={useMapWidgetIds[0]}
           onActiveViewChange={onActiveViewChange}
         />
       )}
+      {useMapWidgetIds?.slice(1).map(mapWidgetId => (
+        <JimuMapViewComponent
+          key={mapWidgetId}
+          useMapWidgetId={mapWidgetId}
+          onActiveViewChange={(jmv: JimuMapView) => onLinkedViewChange(mapWidgetId, jmv)}
+        />
+      ))}
 
       {/* Loading overlay */}
       {loading && <div className="workspace-loading-mask" />}
@@ -203,6 +944,38 @@ export default function Widget (props: AllWidgetProps<IMConfig>) {
         </div>
       )}
 
+      {/* Notice banner */}
+      {notice && (
+        <div className="notice-banner">
+          <span>{notice}</span>
+          <button className="dismiss-btn" onClick={() => setNotice(null)}>✕</button>
+        </div>
+      )}
+
+      {/* Summary of the last session restore */}
+      {restoreReport && (
+        <WorkspaceRestoreSummary
+          label={restoreReport.payload.data?.label || 'Session'}
+          result={restoreReport.result}
+          disabled={loading}
+          onRetryFailed={handleRetryFailed}
+          onRepoint={setRepointTarget}
+          onClose={() => setRestoreReport(null)}
+        />
+      )}
+
+      {/* Crash recovery banner */}
+      {recovery && (
+        <div className="notice-banner">
+          <span>
+            Restore your previous working state
+            (saved {new Date(recovery.saved).toLocaleString('en-NZ', { hour12: false })})?
+          </span>
+          <button className="jimu-btn jimu-btn-primary" disabled={loading} onClick={handleRecover}>Restore</button>
+          <button className="dismiss-btn" onClick={handleDismissRecovery}>✕</button>
+        </div>
+      )}
+
       {/* "New Session" button */}
       <div className="save-section workspaces-content-center">
         <button
@@ -212,6 +985,30 @@ export default function Widget (props: AllWidgetProps<IMConfig>) {
         >
           Save Current Session
         </button>
+        {undoStack.length > 0 && (
+          <button
+            className="jimu-btn"
+            disabled={loading}
+            title={`Undo the last session load (${undoStack.length} available)`}
+            onClick={handleUndoLoad}
+          >
+            Undo Load
+          </button>
+        )}
+        <button
+          className="jimu-btn"
+          disabled={loading}
+          onClick={handleCopyMapLink}
+        >
+          Copy Map Link
+        </button>
+        <button
+          className="jimu-btn"
+          disabled={loading}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Import
+        </button>
         <button
           className="jimu-btn"
           disabled={loading}
@@ -219,14 +1016,70 @@ export default function Widget (props: AllWidgetProps<IMConfig>) {
         >
           Refresh
         </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="d-none"
+          onChange={handleImportFile}
+        />
       </div>
 
+      {/* Session scope tabs (sessions saved in the browser are never shared and have no templates) */}
+      {isPortalStore && (
+        <div className="scope-tabs">
+          <button
+            className={`scope-tab ${scope === 'mine' ? 'active' : ''}`}
+            disabled={loading}
+            onClick={() => setScope('mine')}
+          >
+            My sessions
+          </button>
+          <button
+            className={`scope-tab ${scope === 'shared' ? 'active' : ''}`}
+            disabled={loading}
+            onClick={() => setScope('shared')}
+          >
+            Shared with me
+          </button>
+          {hasTemplates && (
+            <button
+              className={`scope-tab ${scope === 'templates' ? 'active' : ''}`}
+              disabled={loading}
+              onClick={() => setScope('templates')}
+            >
+              Templates
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Search and sort */}
+      <WorkspaceListFilter
+        query={query}
+        sortField={sortField}
+        disabled={loading}
+        onQueryChange={setQuery}
+        onSortChange={setSortField}
+      />
+
       {/* Session list */}
       <WorkspaceList
-        data={workspaces}
+        data={sortedWorkspaces}
+        username={username}
+        emptyText={scope === 'shared' ? 'No sessions shared with you' : scope === 'templates' ? 'No templates available' : undefined}
+        favorites={preferences.favorites}
+        homeId={preferences.homeId}
+        hasMore={nextStart > 0 && !loading}
+        onLoadMore={loadMore}
         onWorkspaceOpen={handleWorkspaceOpen}
         onWorkspaceEdit={handleWorkspaceEdit}
         onWorkspaceDelete={handleWorkspaceDelete}
+        onWorkspaceShare={isPortalStore ? handleWorkspaceShare : undefined}
+        onWorkspaceFavorite={handleWorkspaceFavorite}
+        onWorkspaceHome={handleWorkspaceHome}
+        onWorkspaceExport={handleWorkspaceExport}
+        onWorkspaceCopyLink={isPortalStore ? handleWorkspaceCopyLink : undefined}
       />
 
       {/* Editor modal */}
@@ -234,10 +1087,98 @@ export default function Widget (props: AllWidgetProps<IMConfig>) {
         <WorkspaceItemEditor
           data={editorData}
           onSave={handleEditorSave}
+          onShowHistory={isPortalStore ? handleShowHistory : undefined}
+          onCompare={handleCompareWithSaved}
           onClose={() => setEditorData(null)}
         />
       )}
 
+      {/* Version history modal */}
+      {historyTarget && (
+        <WorkspaceHistoryDialog
+          workspace={historyTarget.workspace}
+          versions={historyTarget.versions}
+          onPreview={handleVersionPreview}
+          onCompare={handleVersionCompare}
+          onRestore={handleVersionRestore}
+          onDelete={handleVersionDelete}
+          onPrune={handleVersionPrune}
+          onClose={() => setHistoryTarget(null)}
+        />
+      )}
+
+      {/* Diff modal */}
+      {diffView && (
+        <WorkspaceDiffDialog
+          title={diffView.title}
+          fromLabel={diffView.fromLabel}
+          toLabel={diffView.toLabel}
+          diff={diffView.diff}
+          confirmLabel={diffView.overwrite ? 'Overwrite' : undefined}
+          onConfirm={diffView.overwrite
+            ? () => {
+                setDiffView(null)
+                handleEditorSave(diffView.overwrite, 'save')
+              }
+            : undefined}
+          onClose={() => setDiffView(null)}
+        />
+      )}
+
+      {/* Preview modal */}
+      {previewData && (
+        <WorkspacePreviewDialog
+          workspace={previewData.workspace}
+          payload={previewData.payload}
+          insetBasemap={previewData.insetBasemap}
+          onApply={previewData.version ? undefined : handlePreviewApply}
+          onApplyPartially={previewData.version ? undefined : handlePreviewApplyPartially}
+          onClose={() => setPreviewData(null)}
+        />
+      )}
+
+      {/* Selective restore modal */}
+      {restoreTarget && (
+        <WorkspaceRestoreDialog
+          workspace={restoreTarget}
+          initialOptions={restoreOptions}
+          onApply={handleSelectiveOpen}
+          onClose={() => setRestoreTarget(null)}
+        />
+      )}
+
+      {/* Import modal */}
+      {importData && (
+        <WorkspaceImportDialog
+          payload={importData.payload}
+          fileName={importData.fileName}
+          onApply={handleImportApply}
+          onSaveAsNew={handleImportSave}
+          onClose={() => setImportData(null)}
+        />
+      )}
+
+      {/* Repoint layer modal */}
+      {repointTarget && restoreReport && (
+        <WorkspaceRepointDialog
+          item={repointTarget}
+          canSave={canResaveLoaded}
+          onApply={handleRepoint}
+          onClose={() => setRepointTarget(null)}
+        />
+      )}
+
+      {/* Share modal */}
+      {shareTarget && (
+        <WorkspaceShareDialog
+          workspace={shareTarget.workspace}
+          groups={shareTarget.groups}
+          sharing={shareTarget.sharing}
+          onSave={handleShareSave}
+          onClose={() => setShareTarget(null)}
+        />
+      )}
+
       {/* Delete confirmation modal */}
       {confirmDelete && (
         <div className="delete-confirm-overlay">
@@ -263,7 +1204,7 @@ export default function Widget (props: AllWidgetProps<IMConfig>) {
 
       {/* Footer */}
       <div className="info-footer workspaces-content-center">
-        {workspaces.length > 0 && <span>{workspaces.length} session(s)</span>}
+        {workspaces.length > 0 && <span>{workspaces.length} of {total} session(s)</span>}
       </div>
     </div>
   )
@@ -1,22 +1,59 @@
 import esriRequest from 'esri/request'
 import Portal from 'esri/portal/Portal'
 import { JimuMapView } from 'jimu-arcgis'
-import { Workspace, MapSessionState, WorkspacePayload, LayerConfig, BasemapLayerInfo, BasemapSnapshot } from './models'
+import { Workspace, MapSessionState, LinkedMapStates, WorkspacePayload, LayerConfig, BasemapLayerInfo, BasemapSnapshot, GroundState, SessionSharing, PortalGroupInfo, SessionPreferences, SessionListOptions, SessionListPage, SessionVersion, RestoreOptions, RestoreItemResult, RestoreResult, PortalItemSettings } from './models'
 import { SessionManager, getAppStore } from 'jimu-core'
 import Basemap from 'esri/Basemap'
 import Layer from 'esri/layers/Layer'
 import Map from 'esri/Map'
-import FeatureLayer from 'esri/layers/FeatureLayer'
 import MapImageLayer from 'esri/layers/MapImageLayer'
+import GroupLayer from 'esri/layers/GroupLayer'
+import Sublayer from 'esri/layers/support/Sublayer'
 import TileLayer from 'esri/layers/TileLayer'
 import VectorTileLayer from 'esri/layers/VectorTileLayer'
 import WebTileLayer from 'esri/layers/WebTileLayer'
 import Extent from 'esri/geometry/Extent'
+import Point from 'esri/geometry/Point'
+import Camera from 'esri/Camera'
+import Ground from 'esri/Ground'
+import ElevationLayer from 'esri/layers/ElevationLayer'
+import type MapView from 'esri/views/MapView'
+import type SceneView from 'esri/views/SceneView'
+import type BuildingSceneLayer from 'esri/layers/BuildingSceneLayer'
+import type BuildingSublayer from 'esri/layers/buildingSublayers/BuildingSublayer'
+import type BuildingGroupSublayer from 'esri/layers/buildingSublayers/BuildingGroupSublayer'
+import type Collection from 'esri/core/Collection'
+import PopupTemplate from 'esri/PopupTemplate'
+import Graphic from 'esri/Graphic'
+import GraphicsLayer from 'esri/layers/GraphicsLayer'
 import { fromJSON } from 'esri/renderers/support/jsonUtils'
-
-
-const portalTags = 'ExB-session,workspace,map-config'
-const portalItemType = 'Application Configuration'
+import { CURRENT_SCHEMA_VERSION, migrateWorkspacePayload } from './session-migrations'
+import { canCreateLayer, createLayerFromConfig, isSceneOnlyLayer } from './layer-factory'
+import { isUrlAllowed } from './session-urls'
+import { defaultPortalItemSettings } from '../config'
+
+
+const preferencesKey = 'exbSessions'
+const versionsPrefix = 'versions'
+const versionsIndexFile = 'index.json'
+
+/** A map or group layer: anything whose `layers` collection session layers are restored into. */
+type LayerContainer = Map | GroupLayer
+
+/** Restore options that apply every part of a session, replacing the current map state. */
+export const fullRestoreOptions: RestoreOptions = {
+  basemap: true,
+  ground: true,
+  extent: true,
+  visibility: true,
+  renderers: true,
+  filters: true,
+  labels: true,
+  popups: true,
+  graphics: true,
+  addLayers: true,
+  removeLayers: true
+}
 
 /**
  * Retrieves the portal URL and a valid token for REST calls.
@@ -185,48 +222,240 @@ const restoreBasemapFromSnapshot = async (
   return null
 }
 
+// -----------------------------------------------------------------------------
+// 3D VIEWS (CAMERA AND GROUND)
+// -----------------------------------------------------------------------------
+
+/**
+ * Converts the camera heading of a 3D view to the rotation of a 2D view showing the same direction.
+ * @param heading Compass heading of the camera, in degrees.
+ * @returns Clockwise rotation of the 2D view, in degrees.
+ */
+const headingToRotation = (heading = 0): number => (360 - heading) % 360
+
+/**
+ * Captures the ground of a 3D map. Only elevation layers with a URL or portal item can be saved.
+ * @param ground The ground of the map.
+ * @returns The ground state to save in the session.
+ */
+const captureGround = (ground: Ground): GroundState => ({
+  layers: ground.layers.toArray()
+    .filter(layer => (layer as any).url || (layer as any).portalItem?.id)
+    .map(layer => ({
+      id: layer.id,
+      title: layer.title,
+      url: (layer as any).url,
+      portalItemId: (layer as any).portalItem?.id,
+      visible: layer.visible
+    })),
+  opacity: ground.opacity,
+  surfaceColor: ground.surfaceColor ? ground.surfaceColor.toJSON() : undefined,
+  navigationConstraint: ground.navigationConstraint?.type
+})
+
+/**
+ * Replaces the ground of a 3D map with a saved one. Elevation layers that can't be loaded are
+ * left out and reported as warnings on the ground's restore result. The app author's list of
+ * approved layers only covers operational layers, so it doesn't apply to elevation layers.
+ * @param map The map to update.
+ * @param ground The saved ground state.
+ * @param item The restore result of the ground, updated with the outcome.
+ */
+const restoreGround = async (
+  map: Map,
+  ground: GroundState,
+  item: RestoreItemResult
+): Promise<void> => {
+  const layers: ElevationLayer[] = []
+
+  for (const info of ground.layers || []) {
+    const report = issueReporter(item, 'elevation', info.title || info.id)
+    try {
+      const layer = info.portalItemId
+        ? new ElevationLayer({ id: info.id, title: info.title, portalItem: { id: info.portalItemId } as any })
+        : new ElevationLayer({ id: info.id, title: info.title, url: info.url })
+      await layer.load()
+      layer.visible = info.visible
+      layers.push(layer)
+    } catch (e: any) {
+      report('layer', e?.message || 'the layer could not be loaded')
+    }
+  }
+
+  if (ground.layers?.length > 0 && layers.length === 0) {
+    item.status = 'failed'
+    item.reason = 'none of the elevation layers could be loaded'
+    return
+  }
+
+  map.ground = new Ground({
+    layers,
+    opacity: ground.opacity ?? 1,
+    surfaceColor: ground.surfaceColor || null,
+    navigationConstraint: ground.navigationConstraint ? { type: ground.navigationConstraint } : undefined
+  } as any)
+}
+
+/**
+ * Moves a view to the viewpoint saved in a map state: the camera in 3D views, the extent and
+ * rotation in 2D views. States saved in the other kind of view are converted:
+ * - a 2D state is shown in 3D from straight above its extent, with its rotation as the camera heading;
+ * - a 3D state is shown in 2D at the extent the camera saw, rotated to the camera heading. Tilt is lost.
+ * @param view The view to move.
+ * @param state The saved map state.
+ * @returns A promise that resolves to notes on what was approximated in a conversion, if anything.
+ * @throws An error if the view can't go to the saved viewpoint.
+ */
+const restoreViewpoint = async (view: MapView | SceneView, state: MapSessionState): Promise<string[]> => {
+  const notes: string[] = []
+
+  if (view.type === '3d') {
+    if (state.camera) {
+      await view.goTo(Camera.fromJSON(state.camera), { animate: false })
+    } else if (state.extent) {
+      await view.goTo({
+        target: Extent.fromJSON(state.extent),
+        heading: headingToRotation(state.rotation),
+        tilt: 0
+      }, { animate: false })
+      notes.push('saved in a 2D map, so shown from straight above')
+    } else if (state.zoom !== undefined) {
+      await view.goTo({ zoom: state.zoom }, { animate: false })
+    }
+    return notes
+  }
+
+  if (state.extent) {
+    await view.goTo(Extent.fromJSON(state.extent), { animate: false })
+  } else if (state.camera?.position) {
+    await view.goTo({ center: Point.fromJSON(state.camera.position) }, { animate: false })
+  } else if (state.zoom !== undefined) {
+    await view.goTo({ zoom: state.zoom }, { animate: false })
+  }
 
+  const rotation = state.camera ? headingToRotation(state.camera.heading) : state.rotation
+  if (rotation !== undefined) view.rotation = rotation
+  if (state.camera && state.camera.tilt > 1) {
+    notes.push('saved in a 3D map; the camera tilt is not shown in 2D')
+  }
+  return notes
+}
 
 // -----------------------------------------------------------------------------
 //  CREATE SESSION PAYLOAD 
 // -----------------------------------------------------------------------------
 
 /**
- * Builds the payload to be saved for a workspace session, 
- * capturing the current map state including basemap, layers, and extent.
- * @param data The workspace data to include in the payload.
+ * Captures the current map state, including basemap, layers, and extent.
+ * For 3D views the camera and the ground are captured too.
  * @param jimuMapView The JimuMapView instance.
- * @returns An object containing the payload and the title for the workspace session.
+ * @returns A promise that resolves to the current map session state.
  */
-const buildPayload = async (
-  data: Workspace,
-  jimuMapView: JimuMapView
-): Promise<{ payload: WorkspacePayload; title: string }> => {
+export const captureMapSession = async (jimuMapView: JimuMapView): Promise<MapSessionState> => {
   const view = jimuMapView.view
   const map = view.map
+  const is3D = view.type === '3d'
 
   const layerConfigs = await extractLayerConfigs(map.layers.toArray())
 
-  const sessionState: MapSessionState = {
+  return {
     basemapId: map.basemap?.id || undefined,
     basemapSnapshot: map.basemap ? snapshotBasemap(map.basemap) : undefined,
     extent: view.extent?.toJSON(),
     zoom: view.zoom,
-    layers: layerConfigs
+    rotation: !is3D && (view as MapView).rotation ? (view as MapView).rotation : undefined,
+    viewType: view.type,
+    camera: is3D ? (view as SceneView).camera?.toJSON() : undefined,
+    ground: is3D && map.ground ? captureGround(map.ground) : undefined,
+    layers: layerConfigs,
+    viewGraphics: view.graphics.length > 0 ? serializeGraphics(view.graphics.toArray()) : undefined,
+    mapWidgetId: jimuMapView.mapWidgetId
+  }
+}
+
+/**
+ * Captures the state of the other connected maps, keyed by map widget ID.
+ * @param jimuMapViews The views of the other connected maps.
+ * @returns A promise that resolves to the linked map states, or undefined if there are none.
+ */
+export const captureLinkedMaps = async (jimuMapViews: JimuMapView[]): Promise<LinkedMapStates | undefined> => {
+  const views = jimuMapViews.filter(jmv => jmv?.view)
+  if (views.length === 0) return undefined
+
+  const states: LinkedMapStates = {}
+  for (const jmv of views) {
+    states[jmv.mapWidgetId] = await captureMapSession(jmv)
   }
+  return states
+}
+
+/**
+ * Builds the payload to be saved for a workspace session, 
+ * capturing the current map state including basemap, layers, and extent.
+ * @param data The workspace data to include in the payload.
+ * @param jimuMapView The JimuMapView instance of the main map.
+ * @param saved Optional map states to save instead of the current ones (e.g. from an imported session).
+ * @param linkedMapViews The views of the other connected maps, captured along with the main map.
+ * @returns An object containing the payload and the title for the workspace session.
+ */
+export const buildPayload = async (
+  data: Workspace,
+  jimuMapView: JimuMapView,
+  saved?: Pick<WorkspacePayload, 'mapSession' | 'linkedMaps'>,
+  linkedMapViews: JimuMapView[] = []
+): Promise<{ payload: WorkspacePayload; title: string }> => {
+  const sessionState = saved?.mapSession || await captureMapSession(jimuMapView)
+  const linkedMaps = saved ? saved.linkedMaps : await captureLinkedMaps(linkedMapViews)
 
   const title = data.label
+  // The thumbnail URL may carry a token, so it is never stored in the payload
+  const { thumbnailUrl, ...workspaceData } = data
 
   const payload: WorkspacePayload = {
     valid: true,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     created: new Date().toISOString(),
     mapSession: sessionState,
-    data: { ...data, label: title }
+    linkedMaps,
+    data: { ...workspaceData, label: title }
   }
 
   return { payload, title }
 }
 
+// -------------------------------------------------------------------------------------
+//  ITEM DETAILS (TAGS / THUMBNAIL)
+// -------------------------------------------------------------------------------------
+
+/**
+ * Merges the fixed session tags with the user's own tags, dropping blanks and duplicates.
+ * @param tags The fixed, comma separated session tags.
+ * @param userTags Optional user tags.
+ * @returns A comma separated tag string for the portal item.
+ */
+export const mergeTags = (tags: string, userTags: string[] = []): string => {
+  const all = [...tags.split(','), ...userTags].map(t => t.trim()).filter(Boolean)
+  return Array.from(new Set(all)).join(',')
+}
+
+/**
+ * Takes a screenshot of the map view to use as the item thumbnail.
+ * @param jimuMapView The JimuMapView instance.
+ * @returns The screenshot as a data URL and a PNG blob, or null if the screenshot fails.
+ */
+export const captureThumbnail = async (
+  jimuMapView: JimuMapView
+): Promise<{ dataUrl: string; blob: Blob } | null> => {
+  try {
+    const screenshot = await jimuMapView.view.takeScreenshot({ width: 600, height: 400, format: 'png' })
+    const blob = await (await fetch(screenshot.dataUrl)).blob()
+    return { dataUrl: screenshot.dataUrl, blob }
+  } catch (e) {
+    console.warn('Could not capture session thumbnail', e)
+    return null
+  }
+}
+
 // -------------------------------------------------------------------------------------
 //  SAVE A SESSION
 // -------------------------------------------------------------------------------------
@@ -235,30 +464,41 @@ const buildPayload = async (
  * Saves a workspace session, creating a new item in the portal.
  * @param portal The portal instance.
  * @param data The workspace data to save.
- * @param jimuMapView The JimuMapView instance.
- * @param tags Optional tags to associate with the saved session.
+ * @param jimuMapView The JimuMapView instance of the main map.
+ * @param itemSettings Tags and item type of session items.
+ * @param saved Optional map states to save instead of the current ones, e.g. from an imported file.
+ *              No thumbnail is captured in that case, as the map does not show the saved state.
+ * @param linkedMapViews The views of the other connected maps, saved along with the main map.
  * @returns A promise that resolves to the saved workspace.
  */
 export const saveMapSession = async (
   portal: Portal,
   data: Workspace,
   jimuMapView: JimuMapView,
-  tags = portalTags
+  itemSettings = defaultPortalItemSettings,
+  saved?: Pick<WorkspacePayload, 'mapSession' | 'linkedMaps'>,
+  linkedMapViews: JimuMapView[] = []
 ): Promise<Workspace> => {
 
   await ensurePortalUser(portal)
-  if (!jimuMapView?.view) throw new Error('Map view is required to save session')
+  if (!jimuMapView?.view && !saved) throw new Error('Map view is required to save session')
 
   const { portalUrl, token } = getPortalSession()
-  const { payload, title } = await buildPayload(data, jimuMapView)
+  const { payload, title } = await buildPayload(data, jimuMapView, saved, linkedMapViews)
+  payload.savedBy = portal.user.username
+  const thumbnail = saved ? null : await captureThumbnail(jimuMapView)
 
   const form = new FormData()
   form.append('f', 'json')
   form.append('title', title)
-  form.append('type', portalItemType) 
+  form.append('type', itemSettings.itemType)
   form.append('token', token)
-  form.append('tags', tags)
+  form.append('tags', mergeTags(itemSettings.tags, data.tags))
+  form.append('snippet', data.snippet || '')
   form.append('text', JSON.stringify(payload))
+  if (thumbnail) {
+    form.append('thumbnail', thumbnail.blob, 'thumbnail.png')
+  }
 
   // Use the "addItem" endpoint to create a new item in the user's content
   const response = await esriRequest(
@@ -271,7 +511,12 @@ export const saveMapSession = async (
   }
 
   // Return the saved workspace with the new ID assigned by the portal
-  return { ...data, id: response.data.id }
+  return {
+    ...data,
+    id: response.data.id,
+    modified: Date.now(),
+    thumbnailUrl: thumbnail?.dataUrl || data.thumbnailUrl
+  }
 }
 
 // -------------------------------------------------------------------------------------
@@ -282,13 +527,17 @@ export const saveMapSession = async (
  * Updates an existing workspace session, overwriting the current item in the portal.
  * @param portal The portal instance.
  * @param data The workspace data to update.
- * @param jimuMapView The JimuMapView instance.
+ * @param jimuMapView The JimuMapView instance of the main map.
+ * @param itemSettings Tags and item type of session items.
+ * @param linkedMapViews The views of the other connected maps, saved along with the main map.
  * @returns A promise that resolves to the updated workspace.
  */
 export const updateMapSession = async (
   portal: Portal,
   data: Workspace,
   jimuMapView: JimuMapView,
+  itemSettings = defaultPortalItemSettings,
+  linkedMapViews: JimuMapView[] = []
 ): Promise<Workspace> => {
 
   await ensurePortalUser(portal)
@@ -296,14 +545,21 @@ export const updateMapSession = async (
   if (!data.id) throw new Error('Cannot update a session without an ID')
 
   const { portalUrl, token } = getPortalSession()
-  const { payload, title } = await buildPayload(data, jimuMapView)
+  const { payload, title } = await buildPayload(data, jimuMapView, undefined, linkedMapViews)
   payload.modified = new Date().toISOString()
+  payload.savedBy = portal.user.username
+  const thumbnail = await captureThumbnail(jimuMapView)
 
   const form = new FormData()
   form.append('f', 'json')
   form.append('title', title)
   form.append('token', token)
+  form.append('tags', mergeTags(itemSettings.tags, data.tags))
+  form.append('snippet', data.snippet || '')
   form.append('text', JSON.stringify(payload))
+  if (thumbnail) {
+    form.append('thumbnail', thumbnail.blob, 'thumbnail.png')
+  }
 
   // Use the "update" endpoint to overwrite the existing item in the user's content
   const response = await esriRequest(
@@ -315,7 +571,51 @@ export const updateMapSession = async (
     throw new Error(response?.data?.error?.message || 'Failed to update workspace session')
   }
 
-  return { ...data, label: title }
+  return {
+    ...data,
+    label: title,
+    modified: Date.now(),
+    thumbnailUrl: thumbnail?.dataUrl || data.thumbnailUrl
+  }
+}
+
+/**
+ * Overwrites an existing workspace session with a given payload instead of the current map state,
+ * e.g. a loaded session whose broken layer was pointed at a new URL. The item's title, tags,
+ * snippet and thumbnail are left as they are. The state it replaces is recorded as a version first.
+ * @param portal The portal instance.
+ * @param payload The payload to save; `payload.data.id` names the session item.
+ * @returns A promise that resolves to the updated workspace.
+ */
+export const updateMapSessionPayload = async (
+  portal: Portal,
+  payload: WorkspacePayload
+): Promise<Workspace> => {
+
+  await ensurePortalUser(portal)
+  const itemId = payload.data?.id
+  if (!itemId) throw new Error('Cannot update a session without an ID')
+
+  await recordSessionVersion(portal, itemId)
+  const { portalUrl, token } = getPortalSession()
+  const updated: WorkspacePayload = { ...payload, modified: new Date().toISOString(), savedBy: portal.user.username }
+
+  const form = new FormData()
+  form.append('f', 'json')
+  form.append('token', token)
+  form.append('text', JSON.stringify(updated))
+
+  // Use the "update" endpoint to replace only the item data
+  const response = await esriRequest(
+    `${portalUrl}/sharing/rest/content/users/${portal.user.username}/items/${itemId}/update`,
+    { authMode: 'auto', method: 'post', body: form }
+  )
+
+  if (!response?.data?.success) {
+    throw new Error(response?.data?.error?.message || 'Failed to update workspace session')
+  }
+
+  return { ...updated.data, id: itemId, modified: Date.now() }
 }
 
 // -------------------------------------------------------------------------------------
@@ -323,31 +623,60 @@ export const updateMapSession = async (
 // --------------------------------------------------------------------------------------
 
 /**
- * Lists all workspace sessions for the current user filtered by tags.
+ * Lists a page of workspace sessions filtered by tags, either owned by the current user
+ * or shared with the user through the groups they belong to.
  * @param portal The portal instance.
- * @param tags Optional tags to filter the sessions.
- * @returns A promise that resolves to an array of workspace sessions.
+ * @param itemSettings Tags and item type of session items.
+ * @param options Optional scope, text filter, sort order and paging.
+ * @returns A promise that resolves to a page of workspace sessions.
  */
 export const listMapSessions = async (
   portal: Portal,
-  tags = portalTags
-): Promise<Workspace[]> => {
+  itemSettings = defaultPortalItemSettings,
+  options: SessionListOptions = {}
+): Promise<SessionListPage> => {
+
+  const {
+    scope = 'mine',
+    query,
+    sortField = 'modified',
+    sortOrder = 'desc',
+    start = 1,
+    num = 50
+  } = options
 
   await ensurePortalUser(portal)
   const { portalUrl, token } = getPortalSession()
 
-  const tagQuery = tags.split(',').map(t => `tags:"${t.trim()}"`).join(' AND ')
-  const searchQuery = `${tagQuery} AND type:"${portalItemType}" AND owner:${portal.user.username}`
+  const tagQuery = itemSettings.tags.split(',').map(t => `tags:"${t.trim()}"`).join(' AND ')
+  let searchQuery = `${tagQuery} AND type:"${itemSettings.itemType}"`
+
+  if (scope === 'shared') {
+    // Items shared into any of the user's groups, excluding the user's own items
+    const groups = await listUserGroups(portal)
+    if (groups.length === 0) return { items: [], total: 0, nextStart: -1 }
+    const groupQuery = groups.map(g => `group:"${g.id}"`).join(' OR ')
+    searchQuery += ` AND (${groupQuery}) AND NOT owner:${portal.user.username}`
+  } else {
+    searchQuery += ` AND owner:${portal.user.username}`
+  }
+
+  // Strip characters that would break the query syntax from the user's search text
+  const text = query?.replace(/["\\()]/g, ' ').trim()
+  if (text) {
+    searchQuery += ` AND (${text})`
+  }
 
   const form = new FormData()
   form.append('f', 'json')
   form.append('q', searchQuery)
-  form.append('num', '100')
-  form.append('sortField', 'modified')
-  form.append('sortOrder', 'desc')
+  form.append('start', String(start))
+  form.append('num', String(num))
+  form.append('sortField', sortField)
+  form.append('sortOrder', sortOrder)
   form.append('token', token)
 
-  // Use the "search" endpoint to find items in the user's content that match the query
+  // Use the "search" endpoint to find items that match the query
   const response = await esriRequest(
     `${portalUrl}/sharing/rest/search`,
     { authMode: 'auto', method: 'post', body: form }
@@ -355,7 +684,79 @@ export const listMapSessions = async (
 
   // Map the search results to the Workspace format expected by the application
   const results = response?.data?.results || []
-  return results.map((item: any) => ({ id: item.id, label: item.title }))
+  const items = results.map((item: any) => toWorkspace(item, itemSettings, portalUrl, token))
+
+  return {
+    items,
+    total: response?.data?.total ?? items.length,
+    nextStart: response?.data?.nextStart ?? -1
+  }
+}
+
+/**
+ * Lists the sessions with the given item IDs, e.g. the template sessions chosen by the app author
+ * or the user's favourites. Sessions that were deleted or that the user can't access are left out.
+ * @param portal The portal instance.
+ * @param itemIds The IDs of the session items, in the order to list them.
+ * @param itemSettings Tags and item type of session items; the fixed tags are hidden from the sessions' tags.
+ * @returns A promise that resolves to the sessions, as a single page.
+ */
+export const listMapSessionsById = async (
+  portal: Portal,
+  itemIds: string[],
+  itemSettings = defaultPortalItemSettings
+): Promise<SessionListPage> => {
+
+  const ids = itemIds.map(id => id.trim()).filter(id => /^[0-9a-f]{32}$/i.test(id))
+  if (ids.length === 0) return { items: [], total: 0, nextStart: -1 }
+
+  await ensurePortalUser(portal)
+  const { portalUrl, token } = getPortalSession()
+
+  const form = new FormData()
+  form.append('f', 'json')
+  form.append('q', ids.map(id => `id:${id}`).join(' OR '))
+  form.append('num', String(ids.length))
+  form.append('token', token)
+
+  const response = await esriRequest(
+    `${portalUrl}/sharing/rest/search`,
+    { authMode: 'auto', method: 'post', body: form }
+  )
+
+  // The search doesn't keep the configured order, so sort the results back into it
+  const results: any[] = response?.data?.results || []
+  const items = ids
+    .map(id => results.find(item => item.id === id))
+    .filter(Boolean)
+    .map(item => toWorkspace(item, itemSettings, portalUrl, token))
+
+  return { items, total: items.length, nextStart: -1 }
+}
+
+/**
+ * Maps a portal item from search results to the Workspace format expected by the application.
+ * @param item The portal item.
+ * @param itemSettings Tags and item type of session items; the fixed tags are left out of the workspace's tags.
+ * @param portalUrl The portal URL, used for the thumbnail URL.
+ * @param token The token appended to the thumbnail URL.
+ * @returns The workspace.
+ */
+const toWorkspace = (item: any, itemSettings: PortalItemSettings, portalUrl: string, token: string): Workspace => {
+  const fixedTags = itemSettings.tags.split(',').map(t => t.trim())
+  return {
+    id: item.id,
+    label: item.title,
+    access: item.access,
+    owner: item.owner,
+    created: item.created,
+    modified: item.modified,
+    snippet: item.snippet || '',
+    tags: (item.tags || []).filter((t: string) => !fixedTags.includes(t)),
+    thumbnailUrl: item.thumbnail
+      ? `${portalUrl}/sharing/rest/content/items/${item.id}/info/${item.thumbnail}?token=${token}`
+      : undefined
+  }
 }
 
 // -------------------------------------------------------------------------------------
@@ -363,21 +764,17 @@ export const listMapSessions = async (
 // -------------------------------------------------------------------------------------
 
 /**
- * Loads a workspace session from the portal and restores the map view state.
+ * Fetches the payload of a workspace session from the portal without applying it to the map.
  * @param portal The portal instance.
- * @param itemId The ID of the workspace session item to load.
- * @param jimuMapView The JimuMapView instance.
- * @returns A promise that resolves to the loaded workspace payload.
+ * @param itemId The ID of the workspace session item to fetch.
+ * @returns A promise that resolves to the stored workspace payload.
  */
-export const loadMapSession = async (
+export const fetchMapSession = async (
   portal: Portal,
-  itemId: string,
-  jimuMapView: JimuMapView
+  itemId: string
 ): Promise<WorkspacePayload> => {
 
   await ensurePortalUser(portal)
-  if (!jimuMapView?.view) throw new Error('Map view is required to load session')
-
   const { portalUrl, token } = getPortalSession()
 
   // Use the "data" endpoint to retrieve the item data
@@ -393,17 +790,63 @@ export const loadMapSession = async (
     }
   )
 
-  const payload: WorkspacePayload = response?.data
-  if (!payload?.valid) {
+  if (!response?.data?.valid) {
     throw new Error('Item is not a valid workspace session')
   }
 
+  // Upgrade payloads saved by older versions of the widget to the current shape
+  const payload = migrateWorkspacePayload(response.data)
+  // Sessions are saved before the portal assigns their ID, so take it from the item
+  payload.data = { ...payload.data, id: itemId }
+  return payload
+}
+
+/**
+ * Loads a workspace session from the portal and restores the map view state.
+ * @param portal The portal instance.
+ * @param itemId The ID of the workspace session item to load.
+ * @param jimuMapView The JimuMapView instance.
+ * @returns A promise that resolves to the loaded workspace payload.
+ */
+export const loadMapSession = async (
+  portal: Portal,
+  itemId: string,
+  jimuMapView: JimuMapView
+): Promise<WorkspacePayload> => {
+
+  if (!jimuMapView?.view) throw new Error('Map view is required to load session')
+
+  const payload = await fetchMapSession(portal, itemId)
+  await applyMapSession(payload, jimuMapView)
+  return payload
+}
+
+/**
+ * Restores the map view state (basemap, extent, layers and graphics) from a workspace payload.
+ * @param payload The workspace payload to apply.
+ * @param jimuMapView The JimuMapView instance.
+ * @param options Which parts of the session to apply; by default everything is replaced.
+ * @returns A promise that resolves to what happened to every part of the session, with the reason
+ *          for anything that was skipped or failed.
+ */
+export const applyMapSession = async (
+  payload: WorkspacePayload,
+  jimuMapView: JimuMapView,
+  options: RestoreOptions = fullRestoreOptions
+): Promise<RestoreResult> => {
+
+  if (!jimuMapView?.view) throw new Error('Map view is required to load session')
+
   const { mapSession } = payload
   const view = jimuMapView.view
   const map = view.map
+  const items: RestoreItemResult[] = []
 
   // 1. Restore basemap
-  let basemapRestored = false
+  const basemapLabel = mapSession.basemapSnapshot?.title || mapSession.basemapId || 'Basemap'
+  const hasBasemap = !!(mapSession.basemapSnapshot || mapSession.basemapId)
+  let basemapRestored = !options.basemap || !hasBasemap
+  let basemapError: string | undefined
 
   // 1-A. restore from Portal item id 
   if (!basemapRestored && mapSession.basemapSnapshot?.portalItemId) {
@@ -412,8 +855,9 @@ export const loadMapSession = async (
       await bm.load()
       map.basemap = bm
       basemapRestored = true
-    } catch (e) {
+    } catch (e: any) {
       console.warn('Could not restore basemap from portalItemId', e)
+      basemapError = e?.message
     }
   }
 
@@ -426,8 +870,9 @@ export const loadMapSession = async (
         map.basemap = wellKnown
         basemapRestored = true
       }
-    } catch (e) {
+    } catch (e: any) {
       console.warn('Could not restore basemap fromId', mapSession.basemapId, e)
+      basemapError = e?.message
     }
   }
 
@@ -440,145 +885,894 @@ export const loadMapSession = async (
         map.basemap = bm
         basemapRestored = true
       }
-    } catch (e) {
+    } catch (e: any) {
       console.warn('Could not restore basemap from snapshot', e)
+      basemapError = e?.message
     }
   }
 
-  if (!basemapRestored) {
+  if (!options.basemap) {
+    items.push({ kind: 'basemap', id: 'basemap', label: basemapLabel, status: 'skipped', reason: 'not selected' })
+  } else if (!hasBasemap) {
+    items.push({ kind: 'basemap', id: 'basemap', label: basemapLabel, status: 'skipped', reason: 'no basemap saved in the session' })
+  } else if (basemapRestored) {
+    items.push({ kind: 'basemap', id: 'basemap', label: basemapLabel, status: 'restored' })
+  } else {
     console.warn('Basemap could not be restored by any strategy')
+    items.push({
+      kind: 'basemap',
+      id: 'basemap',
+      label: basemapLabel,
+      status: 'failed',
+      reason: basemapError || 'could not be restored from its portal item, ID or saved layers'
+    })
+  }
+
+  // 1-D. Restore the ground (elevation) of 3D sessions; 2D views don't draw it
+  if (mapSession.ground) {
+    const groundItem: RestoreItemResult = { kind: 'ground', id: 'ground', label: 'Ground and elevation', status: 'restored' }
+    if (!options.ground) {
+      groundItem.status = 'skipped'
+      groundItem.reason = 'not selected'
+    } else if (view.type !== '3d') {
+      groundItem.status = 'skipped'
+      groundItem.reason = 'only shown in 3D maps'
+    } else {
+      await restoreGround(map, mapSession.ground, groundItem)
+    }
+    items.push(groundItem)
   }
 
-  // 2. Restore extent / zoom
-  if (mapSession.extent) {
+  // 2. Restore extent / zoom, or the camera of 3D sessions
+  const extentItem: RestoreItemResult = {
+    kind: 'extent',
+    id: 'extent',
+    label: mapSession.camera && view.type === '3d' ? 'Camera' : 'Extent',
+    status: 'restored'
+  }
+  if (!options.extent) {
+    extentItem.status = 'skipped'
+    extentItem.reason = 'not selected'
+  } else if (mapSession.extent || mapSession.camera || mapSession.zoom !== undefined) {
     try {
-      const extent = Extent.fromJSON(mapSession.extent)
-      await view.goTo(extent, { animate: false })
-    } catch {
+      const notes = await restoreViewpoint(view, mapSession)
+      if (notes.length > 0) extentItem.warnings = notes
+    } catch (e: any) {
       console.warn('Could not restore extent')
+      extentItem.status = 'failed'
+      extentItem.reason = e?.message || 'the saved extent is not valid'
     }
-  } else if (mapSession.zoom !== undefined) {
-    await view.goTo({ zoom: mapSession.zoom }, { animate: false })
+  } else {
+    extentItem.status = 'skipped'
+    extentItem.reason = 'no extent saved in the session'
   }
+  items.push(extentItem)
 
-  // 3. Restore layers
+  // 3. Restore layers, including group layer children, map image sublayers and building sublayers.
+  // Layers that only draw in 3D are left out of 2D views.
   if (Array.isArray(mapSession.layers)) {
-    const savedLayerIds = new Set(mapSession.layers.map(cfg => cfg.id))
-    const savedLayerUrls = new Set(mapSession.layers.filter(cfg => cfg.url).map(cfg => cfg.url))
-
-    // Remove existing layers that are not in the saved session (by ID or URL)
-    const layersToRemove: Layer[] = []
-    map.layers.forEach(layer => {
-      const matchById = savedLayerIds.has(layer.id)
-      const matchByUrl = (layer as any).url && savedLayerUrls.has((layer as any).url)
-      if (!matchById && !matchByUrl) {
-        layersToRemove.push(layer)
-      }
-    })
-    for (const layer of layersToRemove) {
-      try { 
-        map.remove(layer) 
-      } catch (e) {
-         console.warn('Could not remove layer', layer.id, e) 
-      }
+    let layers = mapSession.layers
+    if (view.type !== '3d') {
+      layers = mapSession.layers.filter(cfg => !isSceneOnlyLayer(cfg))
+      mapSession.layers.filter(isSceneOnlyLayer).forEach(cfg => items.push({
+        kind: 'layer',
+        id: cfg.id,
+        label: cfg.title || cfg.id,
+        url: cfg.url,
+        status: 'skipped',
+        reason: 'only shown in 3D maps'
+      }))
     }
+    await restoreLayerTree(map, layers, options, items)
+  }
 
-    // Add or update layers from the saved session
-    for (const cfg of mapSession.layers) {
-      const layer = await restoreLayerConfig(map, cfg)
-      if (layer) {
-        map.reorder(layer, cfg.order)  // ensure the layer is in the correct order
+  // 4. Restore graphics drawn on the view; in merge mode they are added to the current ones
+  if (Array.isArray(mapSession.viewGraphics) && mapSession.viewGraphics.length > 0) {
+    const graphicsItem: RestoreItemResult = { kind: 'graphics', id: 'graphics', label: 'Map graphics', status: 'restored' }
+    if (options.graphics) {
+      if (options.removeLayers) view.graphics.removeAll()
+      const graphics = deserializeGraphics(mapSession.viewGraphics, failed => {
+        graphicsItem.warnings = [`${failed} graphic(s) could not be restored`]
+      })
+      view.graphics.addMany(graphics)
+      if (graphics.length === 0) {
+        graphicsItem.status = 'failed'
+        graphicsItem.reason = 'none of the saved graphics could be read'
       }
+    } else {
+      graphicsItem.status = 'skipped'
+      graphicsItem.reason = 'not selected'
     }
+    items.push(graphicsItem)
   }
 
-  return payload
+  return { items }
 }
 
-// -------------------------------------------------------------------------------------
-// DELETE A SESSION
-// -------------------------------------------------------------------------------------
-
 /**
- * Deletes a workspace session from the portal.
- * @param portal The portal instance.
- * @param itemId The ID of the workspace session item to delete.
+ * Tries again to restore the parts of a session that failed: the basemap, the ground, the extent, failed layers
+ * (with the group layers they belong to) and graphics. Nothing else on the map is changed.
+ * @param payload The workspace payload that was applied.
+ * @param jimuMapView The JimuMapView instance.
+ * @param previous The result of the previous attempt.
+ * @param options The options the session was applied with.
+ * @returns A promise that resolves to the previous result, updated with the outcome of the retried items.
  */
-export const deleteMapSession = async (
-  portal: Portal,
-  itemId: string
-): Promise<void> => {
-
-  await ensurePortalUser(portal)
+export const retryFailedRestore = async (
+  payload: WorkspacePayload,
+  jimuMapView: JimuMapView,
+  previous: RestoreResult,
+  options: RestoreOptions = fullRestoreOptions
+): Promise<RestoreResult> => {
+  const failed = previous.items.filter(item => item.status === 'failed')
+  const failedLayerIds = new Set(failed.filter(item => item.kind === 'layer').map(item => item.id))
+  const isFailed = (kind: RestoreItemResult['kind']) => failed.some(item => item.kind === kind)
+
+  // Keep failed layers, and the groups leading to them with only their failed children
+  const pickFailed = (cfgs: LayerConfig[], path: string): LayerConfig[] => cfgs.flatMap(cfg => {
+    const id = path ? `${path}/${cfg.id}` : cfg.id
+    if (failedLayerIds.has(id)) return [cfg]
+    if (cfg.type !== 'group' || !cfg.sublayers) return []
+    const children = pickFailed(cfg.sublayers, id)
+    return children.length > 0 ? [{ ...cfg, sublayers: children }] : []
+  })
 
-  const { portalUrl, token } = getPortalSession()
+  const retryPayload: WorkspacePayload = {
+    ...payload,
+    mapSession: {
+      ...payload.mapSession,
+      layers: pickFailed(payload.mapSession.layers || [], ''),
+      viewGraphics: isFailed('graphics') ? payload.mapSession.viewGraphics : undefined
+    }
+  }
+  const retryOptions: RestoreOptions = {
+    ...options,
+    basemap: isFailed('basemap'),
+    ground: isFailed('ground'),
+    extent: isFailed('extent'),
+    removeLayers: false
+  }
 
-  const form = new FormData()
-  form.append('f', 'json')
-  form.append('token', token)
+  const retried = await applyMapSession(retryPayload, jimuMapView, retryOptions)
 
-  // Use the "delete" endpoint to remove the item from the user's content
-  const response = await esriRequest(
-    `${portalUrl}/sharing/rest/content/users/${portal.user.username}/items/${itemId}/delete`,
-    { authMode: 'auto', method: 'post', body: form }
-  )
+  // The retried items replace their previous outcome, and children of recreated group layers are added.
+  // Group layers that were only re-walked to reach a failed child keep their previous outcome.
+  const key = (item: RestoreItemResult) => `${item.kind}:${item.id}`
+  const failedKeys = new Set(failed.map(key))
+  const previousKeys = new Set(previous.items.map(key))
+  const updates: { [key: string]: RestoreItemResult } = {}
+  retried.items.forEach(item => { updates[key(item)] = item })
 
-  if (!response?.data?.success) {
-    throw new Error(response?.data?.error?.message || 'Failed to delete workspace session')
+  return {
+    items: [
+      ...previous.items.map(item => failedKeys.has(key(item)) ? updates[key(item)] || item : item),
+      ...retried.items.filter(item => !previousKeys.has(key(item)))
+    ]
   }
 }
 
 // -------------------------------------------------------------------------------------
-//  HELPER FUNCTIONS
+//  UNDO A LOAD
 // -------------------------------------------------------------------------------------
+
 /**
- * Restores a layer configuration to the map.
- * @param map The map instance.
- * @param cfg The layer configuration to restore.
- * @returns A promise that resolves to the restored layer or null if restoration failed.
+ * The state of the map just before a session was applied, used to undo the load.
+ * Besides the serialized state it keeps the live layer instances, so layers that the load
+ * removed (including ones that could never be recreated from a URL) can be put back as they were.
  */
-const restoreLayerConfig = async (map: Map, cfg: LayerConfig): Promise<Layer | null> => {
+export interface MapSnapshot {
+  state: MapSessionState
+  basemap: Basemap | null
+  ground: Ground | null
+  /** The layer instances of the map, in order, with the children of group layers. */
+  layers: LayerTreeSnapshot
+  taken: string
+}
 
-  // try to find an existing layer with the same ID
-  let layer = map.layers.find(l => l.id === cfg.id)  
+/** Layer instances of a map or group layer, in order; group layers keep their children in order too. */
+type LayerTreeSnapshot = Array<{ layer: Layer; children?: LayerTreeSnapshot }>
 
-  // If no layer with the same ID exists, try to find one with the same URL 
-  if (!layer && cfg.url) {
-    layer = map.layers.find(l => (l as any).url === cfg.url)  
+/**
+ * Records the layer instances of a map or group layer, descending into group layers.
+ * @param container The map or group layer.
+ * @returns The layer tree.
+ */
+const snapshotLayerTree = (container: LayerContainer): LayerTreeSnapshot =>
+  container.layers.toArray().map(layer => layer.type === 'group'
+    ? { layer, children: snapshotLayerTree(layer as GroupLayer) }
+    : { layer })
+
+/**
+ * Puts the recorded layer instances back into a map or group layer in their recorded order,
+ * re-adding children that were removed from group layers and removing any added since.
+ * @param container The map or group layer.
+ * @param tree The recorded layer tree.
+ */
+const restoreLayerTreeSnapshot = (container: LayerContainer, tree: LayerTreeSnapshot): void => {
+  container.removeAll()
+  for (const node of tree) {
+    if (node.children) restoreLayerTreeSnapshot(node.layer as GroupLayer, node.children)
   }
+  container.addMany(tree.map(node => node.layer))
+}
 
-  // If still no layer is found but the config has a URL, attempt to recreate the layer based on its type and URL
-  if (!layer && cfg.url) {
-    try {
-      if (cfg.type === 'feature') {
-        layer = new FeatureLayer({ url: cfg.url, id: cfg.id, title: cfg.title })
-      } else if (cfg.type === 'map-image') {
-        layer = new MapImageLayer({ url: cfg.url, id: cfg.id, title: cfg.title })
-      }
-      if (layer) {
-        map.add(layer)
-        await layer.load()
-      }
-    } catch (e) {
-      console.warn('Could not recreate layer', cfg.id, e)
-      return null
-    }
+/**
+ * Takes a snapshot of the map that can later be restored with restoreMapSnapshot.
+ * @param jimuMapView The JimuMapView instance.
+ * @returns A promise that resolves to the snapshot.
+ */
+export const takeMapSnapshot = async (jimuMapView: JimuMapView): Promise<MapSnapshot> => {
+  if (!jimuMapView?.view) throw new Error('Map view is required to take a snapshot')
+  const map = jimuMapView.view.map
+
+  return {
+    state: await captureMapSession(jimuMapView),
+    basemap: map.basemap ? map.basemap.clone() : null,
+    ground: map.ground ? map.ground.clone() : null,
+    layers: snapshotLayerTree(map),
+    taken: new Date().toISOString()
   }
+}
 
-  if (!layer) {
-    console.warn('Layer not found and could not be recreated', cfg.id)
+/**
+ * Puts the map back exactly as it was when the snapshot was taken: basemap, ground, layer list
+ * and order (including the children of group layers), layer properties, and extent or camera.
+ * @param snapshot The snapshot to restore.
+ * @param jimuMapView The JimuMapView instance.
+ */
+export const restoreMapSnapshot = async (
+  snapshot: MapSnapshot,
+  jimuMapView: JimuMapView
+): Promise<void> => {
+
+  if (!jimuMapView?.view) throw new Error('Map view is required to undo a load')
+  const view = jimuMapView.view
+  const map = view.map
+
+  if (snapshot.basemap) {
+    map.basemap = snapshot.basemap.clone()
+  }
+  if (snapshot.ground) {
+    map.ground = snapshot.ground.clone()
+  }
+
+  // Re-add the original layer instances in their original order, down to the children of group layers
+  restoreLayerTreeSnapshot(map, snapshot.layers)
+
+  // The load may have changed properties of layers that stayed on the map, so re-apply them
+  const propertiesOnly: RestoreOptions = { ...fullRestoreOptions, addLayers: false, removeLayers: false }
+  for (const cfg of snapshot.state.layers) {
+    await restoreLayerConfig(map, cfg, propertiesOnly)
+  }
+
+  view.graphics.removeAll()
+  view.graphics.addMany(deserializeGraphics(snapshot.state.viewGraphics || []))
+
+  try {
+    await restoreViewpoint(view, snapshot.state)
+  } catch {
+    console.warn('Could not restore extent')
+  }
+}
+
+// -------------------------------------------------------------------------------------
+//  VERSION HISTORY
+// -------------------------------------------------------------------------------------
+// Each version is stored as a JSON resource of the session item ("versions/<id>.json"),
+// with an index resource ("versions/index.json") holding the metadata of every version
+// so the history can be listed without downloading each payload.
+
+/**
+ * Reads a JSON resource attached to a portal item.
+ * @param itemId The ID of the item.
+ * @param path The resource path, including any prefix.
+ * @returns A promise that resolves to the parsed resource, or null if it does not exist.
+ */
+const readItemResource = async (itemId: string, path: string): Promise<any> => {
+  const { portalUrl, token } = getPortalSession()
+  try {
+    const response = await esriRequest(
+      `${portalUrl}/sharing/rest/content/items/${itemId}/resources/${path}`,
+      { authMode: 'auto', responseType: 'json', query: { token, _ts: Date.now() } }
+    )
+    return response?.data ?? null
+  } catch {
     return null
   }
+}
+
+/**
+ * Adds or replaces a JSON resource on a portal item owned by the current user.
+ * @param portal The portal instance.
+ * @param itemId The ID of the item.
+ * @param fileName The resource file name.
+ * @param content The content to serialize as JSON.
+ * @param replace Whether the resource already exists and should be replaced.
+ */
+const writeItemResource = async (
+  portal: Portal,
+  itemId: string,
+  fileName: string,
+  content: any,
+  replace: boolean
+): Promise<void> => {
+  const { portalUrl, token } = getPortalSession()
+
+  const form = new FormData()
+  form.append('f', 'json')
+  form.append('file', new Blob([JSON.stringify(content)], { type: 'application/json' }), fileName)
+  form.append('fileName', fileName)
+  form.append('resourcesPrefix', versionsPrefix)
+  form.append('token', token)
+
+  const operation = replace ? 'updateResources' : 'addResources'
+  const response = await esriRequest(
+    `${portalUrl}/sharing/rest/content/users/${portal.user.username}/items/${itemId}/${operation}`,
+    { authMode: 'auto', method: 'post', body: form }
+  )
+
+  if (!response?.data?.success) {
+    throw new Error(response?.data?.error?.message || 'Failed to write session version')
+  }
+}
+
+/**
+ * Lists the version history of a workspace session, newest first.
+ * @param portal The portal instance.
+ * @param itemId The ID of the workspace session item.
+ * @returns A promise that resolves to the session's versions.
+ */
+export const listSessionVersions = async (
+  portal: Portal,
+  itemId: string
+): Promise<SessionVersion[]> => {
+
+  await ensurePortalUser(portal)
+  const index = await readItemResource(itemId, `${versionsPrefix}/${versionsIndexFile}`)
+  const versions: SessionVersion[] = Array.isArray(index?.versions) ? index.versions : []
+  return [...versions].sort((a, b) => b.created.localeCompare(a.created))
+}
+
+/**
+ * Fetches the payload stored for one version of a workspace session.
+ * @param portal The portal instance.
+ * @param itemId The ID of the workspace session item.
+ * @param versionId The ID of the version to fetch.
+ * @returns A promise that resolves to the version's workspace payload.
+ */
+export const fetchSessionVersion = async (
+  portal: Portal,
+  itemId: string,
+  versionId: string
+): Promise<WorkspacePayload> => {
+
+  await ensurePortalUser(portal)
+  const payload = await readItemResource(itemId, `${versionsPrefix}/${versionId}.json`)
+  if (!payload?.valid) {
+    throw new Error('Session version could not be found')
+  }
+  return migrateWorkspacePayload(payload)
+}
+
+/**
+ * Records the state currently stored in a workspace session as a new version, so that it
+ * can be brought back after the session is overwritten or restored to another version.
+ * @param portal The portal instance.
+ * @param itemId The ID of the workspace session item.
+ * @param comment Optional comment describing the version.
+ * @returns A promise that resolves to the recorded version.
+ */
+const recordSessionVersion = async (
+  portal: Portal,
+  itemId: string,
+  comment?: string
+): Promise<SessionVersion> => {
+
+  const payload = await fetchMapSession(portal, itemId)
+  const index = await readItemResource(itemId, `${versionsPrefix}/${versionsIndexFile}`)
+  const versions: SessionVersion[] = Array.isArray(index?.versions) ? index.versions : []
+
+  // The version is labelled with who saved the replaced state and when, not with who is replacing it.
+  // Only the owner can overwrite a session item, so states saved before `savedBy` existed are theirs.
+  const version: SessionVersion = {
+    id: `v-${Date.now()}`,
+    label: payload.data.label,
+    author: payload.savedBy || payload.data.owner || portal.user.username,
+    created: payload.modified || payload.created || new Date().toISOString(),
+    comment: comment || undefined
+  }
+
+  await writeItemResource(portal, itemId, `${version.id}.json`, payload, false)
+  await writeItemResource(portal, itemId, versionsIndexFile, { versions: [...versions, version] }, !!index)
+
+  return version
+}
+
+/**
+ * Overwrites a workspace session with the current map state, first recording the state it
+ * replaces in the session's version history.
+ * @param portal The portal instance.
+ * @param data The workspace data to update.
+ * @param jimuMapView The JimuMapView instance of the main map.
+ * @param comment Optional comment describing the recorded version.
+ * @param itemSettings Tags and item type of session items.
+ * @param linkedMapViews The views of the other connected maps, saved along with the main map.
+ * @returns A promise that resolves to the updated workspace.
+ */
+export const saveMapSessionVersion = async (
+  portal: Portal,
+  data: Workspace,
+  jimuMapView: JimuMapView,
+  comment?: string,
+  itemSettings = defaultPortalItemSettings,
+  linkedMapViews: JimuMapView[] = []
+): Promise<Workspace> => {
+
+  if (!data.id) throw new Error('Cannot update a session without an ID')
+  await ensurePortalUser(portal)
+  await recordSessionVersion(portal, data.id, comment)
+
+  return updateMapSession(portal, data, jimuMapView, itemSettings, linkedMapViews)
+}
+
+/**
+ * Makes a previous version the current state of a workspace session, first recording the
+ * state it replaces in the session's version history.
+ * The map is not changed; apply the returned payload to load it.
+ * @param portal The portal instance.
+ * @param itemId The ID of the workspace session item.
+ * @param versionId The ID of the version to restore.
+ * @returns A promise that resolves to the restored workspace payload.
+ */
+export const restoreSessionVersion = async (
+  portal: Portal,
+  itemId: string,
+  versionId: string
+): Promise<WorkspacePayload> => {
+
+  const payload = await fetchSessionVersion(portal, itemId, versionId)
+  await recordSessionVersion(portal, itemId, 'Saved before restoring an earlier version')
+  const { portalUrl, token } = getPortalSession()
+
+  const restored: WorkspacePayload = { ...payload, modified: new Date().toISOString(), savedBy: portal.user.username }
+
+  const form = new FormData()
+  form.append('f', 'json')
+  form.append('title', restored.data.label)
+  form.append('token', token)
+  form.append('text', JSON.stringify(restored))
+
+  // Use the "update" endpoint to replace the item data with the version's payload
+  const response = await esriRequest(
+    `${portalUrl}/sharing/rest/content/users/${portal.user.username}/items/${itemId}/update`,
+    { authMode: 'auto', method: 'post', body: form }
+  )
+
+  if (!response?.data?.success) {
+    throw new Error(response?.data?.error?.message || 'Failed to restore session version')
+  }
+
+  return restored
+}
+
+/**
+ * Deletes versions from the history of a workspace session.
+ * @param portal The portal instance.
+ * @param itemId The ID of the workspace session item.
+ * @param versionIds The IDs of the versions to delete.
+ * @returns A promise that resolves to the remaining versions, newest first.
+ */
+export const deleteSessionVersions = async (
+  portal: Portal,
+  itemId: string,
+  versionIds: string[]
+): Promise<SessionVersion[]> => {
+
+  const versions = await listSessionVersions(portal, itemId)
+  const { portalUrl, token } = getPortalSession()
+
+  for (const versionId of versionIds) {
+    const form = new FormData()
+    form.append('f', 'json')
+    form.append('resource', `${versionsPrefix}/${versionId}.json`)
+    form.append('token', token)
+
+    // Use the "removeResources" endpoint to delete the version's payload
+    const response = await esriRequest(
+      `${portalUrl}/sharing/rest/content/users/${portal.user.username}/items/${itemId}/removeResources`,
+      { authMode: 'auto', method: 'post', body: form }
+    )
+
+    if (!response?.data?.success) {
+      console.warn('Could not remove session version resource', versionId, response?.data?.error)
+    }
+  }
+
+  const remaining = versions.filter(v => !versionIds.includes(v.id))
+  await writeItemResource(portal, itemId, versionsIndexFile, { versions: remaining }, true)
+  return remaining
+}
+
+/**
+ * Deletes all but the newest versions of a workspace session.
+ * @param portal The portal instance.
+ * @param itemId The ID of the workspace session item.
+ * @param keep The number of most recent versions to keep.
+ * @returns A promise that resolves to the remaining versions, newest first.
+ */
+export const pruneSessionVersions = async (
+  portal: Portal,
+  itemId: string,
+  keep: number
+): Promise<SessionVersion[]> => {
+
+  const versions = await listSessionVersions(portal, itemId)
+  if (versions.length <= keep) return versions
+  return deleteSessionVersions(portal, itemId, versions.slice(keep).map(v => v.id))
+}
+
+// -------------------------------------------------------------------------------------
+//  SHARE A SESSION
+// -------------------------------------------------------------------------------------
+
+/**
+ * Lists the portal groups the current user is a member of.
+ * @param portal The portal instance.
+ * @returns A promise that resolves to the user's groups.
+ */
+export const listUserGroups = async (portal: Portal): Promise<PortalGroupInfo[]> => {
+
+  await ensurePortalUser(portal)
+  const { portalUrl, token } = getPortalSession()
+
+  // The "user" endpoint returns the groups the user belongs to when called by the user themselves
+  const response = await esriRequest(
+    `${portalUrl}/sharing/rest/community/users/${portal.user.username}`,
+    { authMode: 'auto', query: { f: 'json', token } }
+  )
+
+  const groups = response?.data?.groups || []
+  return groups.map((group: any) => ({ id: group.id, title: group.title }))
+}
+
+/**
+ * Retrieves the current sharing level and shared groups of a workspace session.
+ * @param portal The portal instance.
+ * @param itemId The ID of the workspace session item.
+ * @returns A promise that resolves to the sharing details of the item.
+ */
+export const getMapSessionSharing = async (
+  portal: Portal,
+  itemId: string
+): Promise<SessionSharing> => {
+
+  await ensurePortalUser(portal)
+  const { portalUrl, token } = getPortalSession()
+
+  // The owner's item endpoint includes the "sharing" block with access level and group IDs
+  const response = await esriRequest(
+    `${portalUrl}/sharing/rest/content/users/${portal.user.username}/items/${itemId}`,
+    { authMode: 'auto', query: { f: 'json', token } }
+  )
+
+  const sharing = response?.data?.sharing
+  return {
+    access: sharing?.access || 'private',
+    groups: sharing?.groups || []
+  }
+}
+
+/**
+ * Shares a workspace session with the organization, everyone and/or a set of groups.
+ * Setting the access to 'private' or 'shared' removes any organization or public sharing.
+ * @param portal The portal instance.
+ * @param itemId The ID of the workspace session item to share.
+ * @param sharing The sharing level and groups to share the item with.
+ */
+export const shareMapSession = async (
+  portal: Portal,
+  itemId: string,
+  sharing: SessionSharing
+): Promise<void> => {
+
+  await ensurePortalUser(portal)
+  const { portalUrl, token } = getPortalSession()
+
+  const form = new FormData()
+  form.append('f', 'json')
+  form.append('everyone', String(sharing.access === 'public'))
+  form.append('org', String(sharing.access === 'public' || sharing.access === 'org'))
+  form.append('groups', sharing.groups.join(','))
+  form.append('token', token)
+
+  // Use the "share" endpoint to update the item's sharing in the user's content
+  const response = await esriRequest(
+    `${portalUrl}/sharing/rest/content/users/${portal.user.username}/items/${itemId}/share`,
+    { authMode: 'auto', method: 'post', body: form }
+  )
+
+  if (response?.data?.error) {
+    throw new Error(response.data.error.message || 'Failed to share workspace session')
+  }
+  if (response?.data?.notSharedWith?.length > 0) {
+    throw new Error(`Session could not be shared with ${response.data.notSharedWith.length} group(s)`)
+  }
+}
+
+/**
+ * Stops sharing a workspace session with a set of groups.
+ * @param portal The portal instance.
+ * @param itemId The ID of the workspace session item to unshare.
+ * @param groups The IDs of the groups to unshare the item from.
+ */
+export const unshareMapSession = async (
+  portal: Portal,
+  itemId: string,
+  groups: string[]
+): Promise<void> => {
+
+  if (groups.length === 0) return
+
+  await ensurePortalUser(portal)
+  const { portalUrl, token } = getPortalSession()
+
+  const form = new FormData()
+  form.append('f', 'json')
+  form.append('groups', groups.join(','))
+  form.append('token', token)
+
+  // Use the "unshare" endpoint to remove the item from the given groups
+  const response = await esriRequest(
+    `${portalUrl}/sharing/rest/content/users/${portal.user.username}/items/${itemId}/unshare`,
+    { authMode: 'auto', method: 'post', body: form }
+  )
+
+  if (response?.data?.error) {
+    throw new Error(response.data.error.message || 'Failed to unshare workspace session')
+  }
+  if (response?.data?.notUnsharedFrom?.length > 0) {
+    throw new Error(`Session could not be unshared from ${response.data.notUnsharedFrom.length} group(s)`)
+  }
+}
+
+// -------------------------------------------------------------------------------------
+//  USER PREFERENCES (FAVOURITES / HOME)
+// -------------------------------------------------------------------------------------
+
+/**
+ * Reads all properties stored on the current portal user.
+ * @param portal The portal instance.
+ * @returns A promise that resolves to the user's properties object.
+ */
+const getUserProperties = async (portal: Portal): Promise<{ [key: string]: any }> => {
+  const { portalUrl, token } = getPortalSession()
+  const response = await esriRequest(
+    `${portalUrl}/sharing/rest/community/users/${portal.user.username}/properties`,
+    { authMode: 'auto', query: { f: 'json', token, _ts: Date.now() } }
+  )
+  return response?.data?.properties || {}
+}
+
+/**
+ * Retrieves the current user's session preferences (favourite sessions and home session).
+ * @param portal The portal instance.
+ * @returns A promise that resolves to the user's session preferences.
+ */
+export const getSessionPreferences = async (portal: Portal): Promise<SessionPreferences> => {
+
+  await ensurePortalUser(portal)
+  const properties = await getUserProperties(portal)
+  const prefs = properties[preferencesKey] || {}
+
+  return {
+    favorites: Array.isArray(prefs.favorites) ? prefs.favorites : [],
+    homeId: prefs.homeId || undefined
+  }
+}
+
+/**
+ * Saves the current user's session preferences to their portal user properties.
+ * Other properties on the user (e.g. those written by Map Viewer) are preserved.
+ * @param portal The portal instance.
+ * @param prefs The session preferences to save.
+ */
+export const saveSessionPreferences = async (
+  portal: Portal,
+  prefs: SessionPreferences
+): Promise<void> => {
+
+  await ensurePortalUser(portal)
+  const { portalUrl, token } = getPortalSession()
+
+  // "setProperties" replaces the whole properties object, so merge with what is already stored
+  const properties = await getUserProperties(portal)
+  properties[preferencesKey] = { favorites: prefs.favorites, homeId: prefs.homeId || null }
+
+  const form = new FormData()
+  form.append('f', 'json')
+  form.append('properties', JSON.stringify(properties))
+  form.append('token', token)
+
+  const response = await esriRequest(
+    `${portalUrl}/sharing/rest/community/users/${portal.user.username}/setProperties`,
+    { authMode: 'auto', method: 'post', body: form }
+  )
+
+  if (!response?.data?.success) {
+    throw new Error(response?.data?.error?.message || 'Failed to save session preferences')
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// DELETE A SESSION
+// -------------------------------------------------------------------------------------
+
+/**
+ * Deletes a workspace session from the portal.
+ * @param portal The portal instance.
+ * @param itemId The ID of the workspace session item to delete.
+ */
+export const deleteMapSession = async (
+  portal: Portal,
+  itemId: string
+): Promise<void> => {
+
+  await ensurePortalUser(portal)
+
+  const { portalUrl, token } = getPortalSession()
+
+  const form = new FormData()
+  form.append('f', 'json')
+  form.append('token', token)
+
+  // Use the "delete" endpoint to remove the item from the user's content
+  const response = await esriRequest(
+    `${portalUrl}/sharing/rest/content/users/${portal.user.username}/items/${itemId}/delete`,
+    { authMode: 'auto', method: 'post', body: form }
+  )
+
+  if (!response?.data?.success) {
+    throw new Error(response?.data?.error?.message || 'Failed to delete workspace session')
+  }
+}
 
-  (layer as any).renderer = fromJSON(cfg.renderer) || (layer as any).renderer
-  layer.visible = cfg.visible
-  layer.opacity = cfg.opacity
+// -------------------------------------------------------------------------------------
+//  HELPER FUNCTIONS
+// -------------------------------------------------------------------------------------
+/**
+ * Restores the pop-up, field and field alias settings of a layer.
+ * @param layer The layer to update.
+ * @param cfg The saved layer configuration.
+ * @param report Records a setting that could not be restored.
+ */
+const restorePopupSettings = async (
+  layer: Layer | Sublayer,
+  cfg: LayerConfig,
+  report: (setting: string, reason?: string) => void
+): Promise<void> => {
+  const target = layer as any
+
+  if (cfg.popupEnabled !== undefined) {
+    if ('popupEnabled' in target) target.popupEnabled = cfg.popupEnabled
+    else report('pop-up visibility', 'not supported')
+  }
+
+  if (cfg.popupTemplate) {
+    if ('popupTemplate' in target) {
+      try {
+        target.popupTemplate = PopupTemplate.fromJSON(cfg.popupTemplate)
+      } catch (e: any) {
+        report('pop-up', e?.message)
+      }
+    } else {
+      report('pop-up', 'not supported')
+    }
+  }
+
+  if (cfg.outFields) {
+    if ('outFields' in target) target.outFields = cfg.outFields
+    else report('fields', 'not supported')
+  }
+
+  if (cfg.fieldAliases) {
+    // Fields are only known once the layer has loaded (sublayers are loaded with their map image layer)
+    if (typeof target.load === 'function') await target.load().catch(() => {})
+    if (Array.isArray(target.fields) && target.fields.length > 0) {
+      const missing: string[] = []
+      for (const [name, alias] of Object.entries(cfg.fieldAliases)) {
+        const field = target.fields.find((f: any) => f.name === name)
+        if (field) field.alias = alias
+        else missing.push(name)
+      }
+      if (missing.length > 0) report('field aliases', `missing field(s) ${missing.join(', ')}`)
+    } else {
+      report('field aliases', 'layer has no fields')
+    }
+  }
+}
 
-  if (cfg.definitionExpression !== undefined && 'definitionExpression' in layer) {
+/**
+ * Serializes graphics (geometry, symbol, attributes and pop-up) for the session payload.
+ * Graphics without a geometry can't be drawn again, so they are left out.
+ * @param graphics The graphics to serialize.
+ * @returns The graphics as JSON.
+ */
+const serializeGraphics = (graphics: Graphic[]): any[] =>
+  graphics.filter(g => g.geometry).map(g => g.toJSON())
+
+/**
+ * Rebuilds graphics saved with serializeGraphics.
+ * @param json The graphics as JSON.
+ * @param onFailed Optional callback told how many graphics could not be rebuilt, if any.
+ * @returns The graphics that could be rebuilt.
+ */
+const deserializeGraphics = (json: any[], onFailed?: (count: number) => void): Graphic[] => {
+  const graphics: Graphic[] = []
+  let failed = 0
+  for (const item of json) {
+    try {
+      graphics.push(Graphic.fromJSON(item))
+    } catch (e) {
+      console.warn('Could not restore graphic', item, e)
+      failed += 1
+    }
+  }
+  if (failed > 0) onFailed?.(failed)
+  return graphics
+}
+
+/**
+ * Creates a function that records a layer setting that could not be restored, as a warning on the layer's result.
+ * @param item The restore result of the layer.
+ * @param layerType The type of the layer (or sublayer) the setting belongs to.
+ * @param label Optional name of the sublayer the setting belongs to.
+ * @returns The reporting function.
+ */
+const issueReporter = (item: RestoreItemResult, layerType: string, label?: string) =>
+  (setting: string, reason?: string) => {
+    const message = `${label ? `${label} (${layerType}): ` : ''}${setting} could not be restored${reason ? ` – ${reason}` : ''}`
+    console.warn(`${item.label}: ${message}`)
+    item.warnings = [...(item.warnings || []), message]
+  }
+
+/**
+ * Applies the saved properties of a layer or sublayer, as selected by the restore options.
+ * @param layer The layer or sublayer to update.
+ * @param cfg The saved layer configuration.
+ * @param options Which layer properties to apply.
+ * @param report Records a setting that could not be restored.
+ */
+const applyLayerProperties = async (
+  layer: Layer | Sublayer,
+  cfg: LayerConfig,
+  options: RestoreOptions,
+  report: (setting: string, reason?: string) => void
+): Promise<void> => {
+
+  if (options.renderers) {
+    (layer as any).renderer = fromJSON(cfg.renderer) || (layer as any).renderer
+  }
+
+  if (options.visibility) {
+    layer.visible = cfg.visible
+    layer.opacity = cfg.opacity
+
+    if (cfg.minScale !== undefined || cfg.maxScale !== undefined) {
+      if ('minScale' in layer) {
+        const scaled = layer as any
+        scaled.minScale = cfg.minScale ?? 0
+        scaled.maxScale = cfg.maxScale ?? 0
+      } else {
+        report('scale range', 'not supported')
+      }
+    }
+  }
+
+  if (options.filters && cfg.definitionExpression !== undefined && 'definitionExpression' in layer) {
     (layer as any).definitionExpression = cfg.definitionExpression
   }
 
-  if (cfg.labelingInfo && 'labelingInfo' in layer) {
+  if (options.labels && cfg.labelingInfo && 'labelingInfo' in layer) {
     try { 
       (layer as any).labelingInfo = cfg.labelingInfo 
     } catch { 
@@ -586,22 +1780,202 @@ const restoreLayerConfig = async (map: Map, cfg: LayerConfig): Promise<Layer | n
     }
   }
 
+  if (options.popups) {
+    await restorePopupSettings(layer, cfg, report)
+  }
+
+  if (options.graphics && cfg.graphics && layer instanceof GraphicsLayer) {
+    layer.removeAll()
+    layer.addMany(deserializeGraphics(cfg.graphics, failed => report(`${failed} graphic(s)`)))
+  }
+}
+
+/**
+ * Restores the sublayers of a map image or building scene layer (or of a sublayer), matched by sublayer ID.
+ * Sublayers are defined by the service, so they are only updated and reordered, never added or removed.
+ * @param parent The layer or sublayer whose sublayers are restored.
+ * @param cfgs The saved sublayer configurations.
+ * @param options Which properties to apply and whether the saved order is enforced.
+ * @param item The restore result of the layer, which sublayer problems are reported on.
+ */
+const restoreSublayerConfigs = async (
+  parent: MapImageLayer | Sublayer | BuildingSceneLayer | BuildingGroupSublayer,
+  cfgs: LayerConfig[],
+  options: RestoreOptions,
+  item: RestoreItemResult
+): Promise<void> => {
+  const sublayers: Collection<any> = parent.sublayers
+  if (!sublayers) return
+
+  for (const cfg of cfgs) {
+    const report = issueReporter(item, 'sublayer', cfg.title || cfg.id)
+    const sublayer = sublayers.find(s => String(s.id) === cfg.id)
+    if (!sublayer) {
+      report('sublayer', 'no longer in the map service')
+      continue
+    }
+
+    await applyLayerProperties(sublayer, cfg, options, report)
+    if (cfg.sublayers) {
+      await restoreSublayerConfigs(sublayer, cfg.sublayers, options, item)
+    }
+    if (options.removeLayers) {
+      sublayers.reorder(sublayer, cfg.order)
+    }
+  }
+}
+
+/**
+ * Restores a layer configuration to the map or to a group layer.
+ * Group layer children and map image sublayers are restored recursively.
+ * @param container The map or group layer the layer belongs to.
+ * @param cfg The layer configuration to restore.
+ * @param options Which layer properties to apply and whether missing layers may be recreated.
+ * @param results Optional list that the outcome for the layer (and any children) is added to.
+ * @param parent The restore result of the group layer the layer belongs to, if any.
+ * @returns A promise that resolves to the restored layer or null if restoration failed.
+ */
+const restoreLayerConfig = async (
+  container: LayerContainer,
+  cfg: LayerConfig,
+  options: RestoreOptions = fullRestoreOptions,
+  results: RestoreItemResult[] = [],
+  parent?: RestoreItemResult
+): Promise<Layer | null> => {
+
+  const item: RestoreItemResult = {
+    kind: 'layer',
+    id: parent ? `${parent.id}/${cfg.id}` : cfg.id,
+    label: parent ? `${parent.label} › ${cfg.title || cfg.id}` : cfg.title || cfg.id,
+    url: cfg.url,
+    status: 'restored'
+  }
+  results.push(item)
+
+  // try to find an existing layer with the same ID
+  let layer = container.layers.find(l => l.id === cfg.id)  
+
+  // If no layer with the same ID exists, try to find one with the same URL or portal item
+  if (!layer && cfg.url) {
+    layer = container.layers.find(l => (l as any).url === cfg.url)  
+  }
+  if (!layer && cfg.portalItemId) {
+    layer = container.layers.find(l => (l as any).portalItem?.id === cfg.portalItemId && (l as any).layerId === cfg.layerId)
+  }
+
+  // If still no layer is found, attempt to recreate the layer from its portal item or URL.
+  // Group layers are recreated empty; their children are restored below, from the saved sublayers.
+  if (!layer && options.addLayers) {
+    if ((cfg.url || cfg.portalItemId) && !isUrlAllowed(cfg.url, options.allowedLayerUrls)) {
+      item.status = 'skipped'
+      item.reason = 'not on the list of layers approved for this app'
+      return null
+    }
+    if (!canCreateLayer(cfg)) {
+      item.status = 'failed'
+      item.reason = cfg.url || cfg.portalItemId ? `${cfg.type} layers can't be recreated` : 'no URL or portal item saved'
+      return null
+    }
+    try {
+      layer = await createLayerFromConfig(cfg)
+      container.add(layer)
+      await layer.load()
+      item.status = 'recreated'
+    } catch (e: any) {
+      console.warn('Could not recreate layer', cfg.id, e)
+      if (layer) container.remove(layer)
+      item.status = 'failed'
+      item.reason = e?.message || 'the layer could not be loaded'
+      return null
+    }
+  }
+
+  if (!layer) {
+    item.status = 'skipped'
+    item.reason = 'not on the map, and adding missing layers was not selected'
+    return null
+  }
+
+  await applyLayerProperties(layer, cfg, options, issueReporter(item, layer.type))
+
+  if (cfg.sublayers) {
+    if (layer.type === 'group') {
+      await restoreLayerTree(layer as GroupLayer, cfg.sublayers, options, results, item)
+    } else if (layer.type === 'map-image' || layer.type === 'building-scene') {
+      // Sublayers are only available once the layer has loaded
+      await layer.load().catch(() => {})
+      await restoreSublayerConfigs(layer as MapImageLayer | BuildingSceneLayer, cfg.sublayers, options, item)
+    }
+  }
+
   return layer
 }
 
 /**
- * Extracts the configuration of each layer in the map.
- * @param layers The layers to extract configurations from.
+ * Restores a list of layer configurations into the map or a group layer.
+ * When the options replace the current layers, layers that aren't in the list are removed
+ * and the rest are put in the saved order; in merge mode the current layers are left alone.
+ * @param container The map or group layer to restore into.
+ * @param cfgs The saved layer configurations.
+ * @param options Which parts of the layers to apply.
+ * @param results List that the outcome for each layer is added to.
+ * @param parent The restore result of the group layer being restored into, if any.
+ */
+const restoreLayerTree = async (
+  container: LayerContainer,
+  cfgs: LayerConfig[],
+  options: RestoreOptions,
+  results: RestoreItemResult[],
+  parent?: RestoreItemResult
+): Promise<void> => {
+
+  if (options.removeLayers) {
+    const savedLayerIds = new Set(cfgs.map(cfg => cfg.id))
+    const savedLayerUrls = new Set(cfgs.filter(cfg => cfg.url).map(cfg => cfg.url))
+
+    // Remove existing layers that are not in the saved session (by ID or URL)
+    const layersToRemove: Layer[] = []
+    container.layers.forEach(layer => {
+      const matchById = savedLayerIds.has(layer.id)
+      const matchByUrl = (layer as any).url && savedLayerUrls.has((layer as any).url)
+      if (!matchById && !matchByUrl) {
+        layersToRemove.push(layer)
+      }
+    })
+    for (const layer of layersToRemove) {
+      try { 
+        container.remove(layer) 
+      } catch (e) {
+         console.warn('Could not remove layer', layer.id, e) 
+      }
+    }
+  }
+
+  // Add or update layers from the saved session
+  for (const cfg of cfgs) {
+    const layer = await restoreLayerConfig(container, cfg, options, results, parent)
+    // In merge mode the user's own layers stay where they are, so the saved order is not enforced
+    if (layer && options.removeLayers) {
+      container.reorder(layer, cfg.order)  // ensure the layer is in the correct order
+    }
+  }
+}
+
+/**
+ * Extracts the configuration of each layer in the map, including the children of group layers
+ * and the sublayers of map image and building scene layers.
+ * @param layers The layers (or sublayers) to extract configurations from.
  * @returns A promise that resolves to an array of layer configurations.
  */
-const extractLayerConfigs = async (layers: Layer[]): Promise<LayerConfig[]> => {
+const extractLayerConfigs = async (layers: Array<Layer | Sublayer | BuildingSublayer>): Promise<LayerConfig[]> => {
   const configs: LayerConfig[] = []
 
   for (const [idx, layer] of layers.entries()) {
     try {
+      const isSublayer = layer instanceof Sublayer
       const cfg: LayerConfig = {
-        id: layer.id,
-        type: layer.type,
+        id: String(layer.id),
+        type: isSublayer ? 'sublayer' : (layer as Layer).type,
         title: layer.title,
         visible: layer.visible,
         opacity: layer.opacity,
@@ -612,6 +1986,10 @@ const extractLayerConfigs = async (layers: Layer[]): Promise<LayerConfig[]> => {
       if ((layer as any).url){
         cfg.url = (layer as any).url
       } 
+      if (!isSublayer && (layer as any).portalItem?.id) {
+        cfg.portalItemId = (layer as any).portalItem.id
+        if (typeof (layer as any).layerId === 'number') cfg.layerId = (layer as any).layerId
+      }
       if ((layer as any).definitionExpression !== undefined){
         cfg.definitionExpression = (layer as any).definitionExpression
       } 
@@ -623,6 +2001,45 @@ const extractLayerConfigs = async (layers: Layer[]): Promise<LayerConfig[]> => {
         } catch { /* ignore */ }
       }
 
+      if ('minScale' in layer) {
+        cfg.minScale = (layer as any).minScale
+        cfg.maxScale = (layer as any).maxScale
+      }
+      if ('popupEnabled' in layer) {
+        cfg.popupEnabled = (layer as any).popupEnabled
+      }
+      if ((layer as any).popupTemplate) {
+        try {
+          cfg.popupTemplate = (layer as any).popupTemplate.toJSON()
+        } catch (e) {
+          console.warn('Could not serialize pop-up of layer', layer.id, e)
+        }
+      }
+      if (Array.isArray((layer as any).outFields)) {
+        cfg.outFields = [...(layer as any).outFields]
+      }
+      if (Array.isArray((layer as any).fields)) {
+        // Only aliases that differ from the field name are customisations worth keeping
+        const aliases = (layer as any).fields.filter((f: any) => f.alias && f.alias !== f.name)
+        if (aliases.length > 0) {
+          cfg.fieldAliases = Object.fromEntries(aliases.map((f: any) => [f.name, f.alias]))
+        }
+      }
+
+      if (layer instanceof GraphicsLayer) {
+        cfg.graphics = serializeGraphics(layer.graphics.toArray())
+      }
+
+      // Walk down the layer tree: group layer children, map image (sub)sublayers and building sublayers
+      const children: Collection<any> | null = cfg.type === 'group'
+        ? (layer as GroupLayer).layers
+        : (cfg.type === 'map-image' || isSublayer) ? (layer as MapImageLayer | Sublayer).sublayers
+          : (cfg.type === 'building-scene' || cfg.type === 'building-group') ? (layer as BuildingSceneLayer | BuildingGroupSublayer).sublayers
+            : null
+      if (children && children.length > 0) {
+        cfg.sublayers = await extractLayerConfigs(children.toArray())
+      }
+
       configs.push(cfg)
     } catch (e) {
       console.warn('Failed to extract layer config', layer?.id, e)
@@ -25,8 +25,8 @@ import {
   SettingSection,
   SettingRow
 } from 'jimu-ui/advanced/setting-components'
-import { Switch } from 'jimu-ui'
-import { type IMConfig } from '../config'
+import { Switch, NumericInput, Select, Option, TextInput, TextArea, Button } from 'jimu-ui'
+import { type IMConfig, type UrlRemapping, defaultPortalItemSettings } from '../config'
 import defaultI18nMessages from './translations/default'
 
 export default function (props: AllWidgetSettingProps<IMConfig>) {
@@ -37,6 +37,28 @@ export default function (props: AllWidgetSettingProps<IMConfig>) {
     })
   }
 
+  const onConfigChange = (key: string, value: any) => {
+    props.onSettingChange({
+      id: props.id,
+      config: props.config.set(key, value)
+    })
+  }
+
+  /** Splits a list typed one entry per line (or separated by spaces or commas) into its entries. */
+  const onListChange = (key: string, value: string) => {
+    onConfigChange(key, value.split(/[\s,]+/).filter(Boolean))
+  }
+
+  const urlRemappings: UrlRemapping[] = props.config.urlRemappings?.asMutable({ deep: true }) || []
+
+  const onUrlRemappingChange = (index: number, key: keyof UrlRemapping, value: string) => {
+    onConfigChange('urlRemappings', urlRemappings.map((r, i) => i === index ? { ...r, [key]: value.trim() } : r))
+  }
+
+  const onUrlRemappingRemove = (index: number) => {
+    onConfigChange('urlRemappings', urlRemappings.filter((r, i) => i !== index))
+  }
+
   const style = css`
     .some-class {
     }
@@ -47,10 +69,121 @@ export default function (props: AllWidgetSettingProps<IMConfig>) {
         <SettingSection className="map-selector-section" title="Map">
           <SettingRow>
             <MapWidgetSelector
+              isMultiple
               onSelect={onMapWidgetSelected}
               useMapWidgetIds={props.useMapWidgetIds}
             />
           </SettingRow>
+          <SettingRow flow="wrap" label={defaultI18nMessages.mapsHint} />
+        </SettingSection>
+        <SettingSection title={defaultI18nMessages.storage}>
+          <SettingRow flow="wrap" label={defaultI18nMessages.storageLocation}>
+            <Select
+              className="w-100"
+              value={props.config.storage || 'portal'}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onConfigChange('storage', e.target.value)}
+            >
+              <Option value="portal">{defaultI18nMessages.storagePortal}</Option>
+              <Option value="local">{defaultI18nMessages.storageLocal}</Option>
+            </Select>
+          </SettingRow>
+          {(props.config.storage || 'portal') === 'portal' && (
+            <React.Fragment>
+              <SettingRow flow="wrap" label={defaultI18nMessages.portalTags}>
+                <TextInput
+                  className="w-100"
+                  size="sm"
+                  placeholder={defaultPortalItemSettings.tags}
+                  defaultValue={props.config.portalTags || ''}
+                  onAcceptValue={(value: string) => onConfigChange('portalTags', value.trim())}
+                />
+              </SettingRow>
+              <SettingRow flow="wrap" label={defaultI18nMessages.portalItemType}>
+                <TextInput
+                  className="w-100"
+                  size="sm"
+                  placeholder={defaultPortalItemSettings.itemType}
+                  defaultValue={props.config.portalItemType || ''}
+                  onAcceptValue={(value: string) => onConfigChange('portalItemType', value.trim())}
+                />
+              </SettingRow>
+              <SettingRow flow="wrap" label={defaultI18nMessages.portalItemHint} />
+            </React.Fragment>
+          )}
+        </SettingSection>
+        {(props.config.storage || 'portal') === 'portal' && (
+          <SettingSection title={defaultI18nMessages.templates}>
+            <SettingRow flow="wrap" label={defaultI18nMessages.templatesHint}>
+              <TextArea
+                className="w-100"
+                height={80}
+                defaultValue={(props.config.templateSessionIds || []).join('\n')}
+                onAcceptValue={(value: string) => onListChange('templateSessionIds', value)}
+              />
+            </SettingRow>
+          </SettingSection>
+        )}
+        <SettingSection title={defaultI18nMessages.allowedLayers}>
+          <SettingRow flow="wrap" label={defaultI18nMessages.allowedLayersHint}>
+            <TextArea
+              className="w-100"
+              height={80}
+              defaultValue={(props.config.allowedLayerUrls || []).join('\n')}
+              onAcceptValue={(value: string) => onListChange('allowedLayerUrls', value)}
+            />
+          </SettingRow>
+        </SettingSection>
+        <SettingSection title={defaultI18nMessages.urlRemapping}>
+          <SettingRow flow="wrap" label={defaultI18nMessages.urlRemappingHint} />
+          {urlRemappings.map((remapping, index) => (
+            <SettingRow flow="wrap" key={`${index}:${remapping.from}:${remapping.to}`}>
+              <TextInput
+                className="w-100"
+                size="sm"
+                placeholder={defaultI18nMessages.urlRemappingFrom}
+                defaultValue={remapping.from}
+                onAcceptValue={(value: string) => onUrlRemappingChange(index, 'from', value)}
+              />
+              <TextInput
+                className="w-100 mt-1"
+                size="sm"
+                placeholder={defaultI18nMessages.urlRemappingTo}
+                defaultValue={remapping.to}
+                onAcceptValue={(value: string) => onUrlRemappingChange(index, 'to', value)}
+              />
+              <Button className="mt-1" size="sm" type="tertiary" onClick={() => onUrlRemappingRemove(index)}>
+                {defaultI18nMessages.remove}
+              </Button>
+            </SettingRow>
+          ))}
+          <SettingRow>
+            <Button
+              size="sm"
+              onClick={() => onConfigChange('urlRemappings', [...urlRemappings, { from: '', to: '' }])}
+            >
+              {defaultI18nMessages.urlRemappingAdd}
+            </Button>
+          </SettingRow>
+        </SettingSection>
+        <SettingSection title={defaultI18nMessages.autosave}>
+          <SettingRow label={defaultI18nMessages.autosaveEnabled}>
+            <Switch
+              checked={!!props.config.autosaveEnabled}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onConfigChange('autosaveEnabled', e.target.checked)}
+            />
+          </SettingRow>
+          {props.config.autosaveEnabled && (
+            <SettingRow flow="wrap" label={defaultI18nMessages.autosaveInterval}>
+              <NumericInput
+                className="w-100"
+                min={1}
+                max={600}
+                step={1}
+                value={props.config.autosaveInterval ?? 5}
+                onChange={(value: number) => onConfigChange('autosaveInterval', value)}
+              />
+            </SettingRow>
+          )}
         </SettingSection>
       </div>
     </div>
@@ -1,4 +1,25 @@
 export default {
   selectedMap: 'Map',
-  layers: 'Layers'
+  mapsHint: 'The first map is the main map. Sessions also save and restore any other selected maps, such as an overview map.',
+  layers: 'Layers',
+  storage: 'Storage',
+  storageLocation: 'Save sessions to',
+  storagePortal: 'Portal items (requires sign-in)',
+  storageLocal: 'This browser (IndexedDB, no sign-in)',
+  portalTags: 'Session item tags (comma separated)',
+  portalItemType: 'Session item type',
+  portalItemHint: 'Sessions saved with different tags or type are no longer listed after these are changed.',
+  templates: 'Template sessions',
+  templatesHint: 'Portal item IDs of sessions shown to every user as starting points, one per line.',
+  allowedLayers: 'Approved layers',
+  allowedLayersHint: 'Service URLs or roots that sessions may add layers from, one per line. Leave empty to allow any layer.',
+  urlRemapping: 'Service URL remapping',
+  urlRemappingHint: 'Saved layer URLs starting with an old service root are rewritten to the new root when a session is opened.',
+  urlRemappingFrom: 'Old root, e.g. https://old-server/arcgis/rest/services',
+  urlRemappingTo: 'New root, e.g. https://new-server/arcgis/rest/services',
+  urlRemappingAdd: 'Add remapping',
+  remove: 'Remove',
+  autosave: 'Autosave',
+  autosaveEnabled: 'Autosave the working map state',
+  autosaveInterval: 'Seconds after the last map change before saving'
 }